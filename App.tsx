@@ -1,6 +1,6 @@
 import React, { useEffect, useRef, useState, useCallback } from 'react';
-import * as THREE from 'three';
 import { initializeApp } from 'firebase/app';
+import type { GestureRecognizer } from '@mediapipe/tasks-vision';
 import { 
   getFirestore, 
   collection, 
@@ -12,6 +12,105 @@ import {
   serverTimestamp 
 } from 'firebase/firestore';
 import { getAuth, signInAnonymously } from 'firebase/auth';
+import {
+  HandInput,
+  HandSide,
+  HandAction,
+  HeldAction,
+  InputAction,
+  TrackedHand,
+  InputManager,
+  InputSourceId,
+  GestureResults,
+  GestureBindings,
+  ActionTriggers,
+  DEFAULT_GESTURE_BINDINGS,
+  GESTURE_BINDINGS_STORAGE_KEY,
+  BINDABLE_ACTIONS,
+  GESTURE_CATEGORIES,
+  getActionInfo,
+  getBoundGestures,
+  createInputManager,
+  createMouseKeyboardSource,
+  RecognizeFn,
+  createGestureSource,
+  createLandmarkClassifier,
+  recognizeFromVideo,
+  toRawAim,
+  resolveRecognizerConfig,
+  createGestureRecognizer,
+  WorkerRecognizer,
+  createWorkerRecognizer,
+  supportsWorkerRecognition,
+  createGamepadSource,
+  createLandmarkRecorder,
+  createPlaybackRecognize,
+  parseRecording,
+  downloadRecording,
+  CalibrationProfile,
+  DEFAULT_CALIBRATION,
+  CALIBRATION_STORAGE_KEY,
+  createCalibratedMapper,
+  CameraSettings,
+  CameraStatus,
+  DEFAULT_CAMERA_SETTINGS,
+  CAMERA_STORAGE_KEY,
+  CAMERA_STATUS_INFO,
+  classifyCameraError,
+  openCamera,
+  listCameras,
+  describeStream,
+  CursorFilterSettings,
+  DEFAULT_CURSOR_FILTER,
+  CURSOR_FILTER_STORAGE_KEY,
+  PointFilter,
+  createPointFilter,
+  Strafe,
+  NO_STRAFE,
+  combineStrafe,
+  edgeStrafe
+} from './input';
+import CalibrationWizard from './components/CalibrationWizard';
+import GestureBindingsPanel from './components/GestureBindingsPanel';
+import ArmoryPanel from './components/ArmoryPanel';
+import CameraPanel from './components/CameraPanel';
+import CursorFilterPanel from './components/CursorFilterPanel';
+import OpticsOverlay from './components/OpticsOverlay';
+import {
+  FiringHand,
+  GameEvent,
+  GameSnapshot,
+  BossSnapshot,
+  BuffKind,
+  BuffSnapshot,
+  ComboSnapshot,
+  EngineInput,
+  Loadout,
+  PICKUPS,
+  UPGRADES,
+  UpgradeId,
+  buyUpgrade,
+  canBuyUpgrade,
+  creditsForScore,
+  loadoutLevels,
+  nextUpgradeCost,
+  sanitizeLoadout,
+  ScoreBonus,
+  WaveObjective,
+  BEAM_CHARGE_MS,
+  LOW_HEALTH,
+  createGameEngine,
+  createGameRenderer,
+  GameRenderer,
+  createFixedStepper,
+  loadWaveScript,
+  dailyChallengeDate,
+  dailySeed,
+  formatSeed,
+  parseSeed,
+  randomSeed
+} from './game';
+import { loadSetting, saveSetting, hasSetting } from './utils/storage';
 
 // --- Global Definitions & Types ---
 
@@ -21,24 +120,21 @@ declare global {
   var __initial_auth_token: string;
 }
 
-interface GameState {
-  status: 'menu' | 'playing' | 'gameover';
-  health: number;
-  score: number;
-  wave: number;
-  enemies: Enemy[];
-  beamCharges: number; // 0 to 5 (Ammo count)
+// HUD copy of the engine's world; the engine itself is the source of truth
+type GameState = Pick<GameSnapshot, 'status' | 'health' | 'score' | 'wave' | 'waveLabel' | 'beamCharges' | 'maxBeamCharges' | 'unibeam' | 'overload' | 'resumeIn'>;
+
+// Why a run is paused; a 'hand' pause resumes by itself once the hand is back in frame
+type PauseReason = 'manual' | 'hand' | 'hidden';
+
+interface GestureStatus {
+  state: 'loading' | 'ready' | 'unavailable';
+  detail?: string; // Why gesture control is unavailable
 }
 
-interface Enemy {
-  id: string;
-  mesh: THREE.Mesh;
-  hitbox: THREE.Mesh; // Invisible larger mesh for easier aiming
-  hp: number;
-  maxHp: number;
-  wobbleOffset: number;
-  speedOffset: number;
-  velocity: THREE.Vector3; // Physics velocity for smooth steering
+// Upgrade credits and what they bought, kept across runs
+interface SuitProgress {
+  credits: number;
+  loadout: Loadout;
 }
 
 interface LeaderboardEntry {
@@ -47,103 +143,228 @@ interface LeaderboardEntry {
   score: number;
 }
 
-interface Particle {
-  mesh: THREE.Mesh;
-  velocity: THREE.Vector3;
-  life: number;
-}
-
-interface ElectricalArc {
-    mesh: THREE.Line;
-    life: number;
-}
+// --- Constants ---
 
-interface Shockwave {
-    mesh: THREE.Mesh;
-    light: THREE.PointLight;
-    life: number;
-    direction: THREE.Vector3 | null; // null indicates omni-directional 360 blast
-}
+const DUAL_HANDS_STORAGE_KEY = 'dual_hands';
+const SUIT_STORAGE_KEY = 'suit_progress';
+const HAND_LOSS_PAUSE_FRAMES = 45; // Render frames without a detected hand before gesture play auto-pauses
 
-interface DamageText {
-  sprite: THREE.Sprite;
-  velocity: THREE.Vector3;
-  life: number;
-}
+const PAUSE_REASON_INFO: Record<PauseReason, { label: string; hint: string }> = {
+  manual: { label: 'SYSTEMS PAUSED', hint: 'RESUME TO CONTINUE' },
+  hand: { label: 'TRACKING LOST', hint: 'RAISE YOUR HAND TO RESUME' },
+  hidden: { label: 'SIGNAL INTERRUPTED', hint: 'TAB LEFT WHILE IN COMBAT' }
+};
 
-interface HandInput {
-  x: number; // 0-1 relative to screen
-  y: number; // 0-1 relative to screen
-  detected: boolean;
-  gesture: string;
-}
+// How each action fires from a held gesture (see input/gestureStateMachine.ts).
+// Repulsors auto-fire while the fist is held (the suit's repulsor cooldown paces them), while a
+// shield or overload only goes off once per distinct gesture. Pause needs a short hold
+// so a gesture passing through on the way to another one does not stop the run. The unibeam
+// has no trigger: it charges and fires for as long as its gesture is held.
+const ACTION_TRIGGERS: ActionTriggers = {
+  repulsor: { mode: 'hold' },
+  charged_repulsor: { mode: 'charge', chargeMs: 800 },
+  shield: { mode: 'press' },
+  overload: { mode: 'press' },
+  pause: { mode: 'charge', chargeMs: 600 }
+};
 
-// --- Constants ---
+// --- Helper Functions ---
 
-const PLAYER_HEIGHT = 1.5;
-const FLIGHT_SPEED = 15.0; // Automatic forward speed
-const REPULSOR_COOLDOWN_MS = 200;
-const BEAM_DURATION_MS = 1000;
-const WAVE_DURATION_SEC = 45;
-const MAX_BEAM_CHARGES = 5;
-const BEAM_REGEN_MS = 1000; // 1 Second per charge (5 charges in 5 seconds)
-const BEAM_AOE_RADIUS = 3.5; // Wide destruction radius
+const createAimMappers = (profile: CalibrationProfile): Record<FiringHand, (raw: { x: number; y: number }) => { x: number; y: number }> => ({
+  primary: createCalibratedMapper(profile),
+  left: createCalibratedMapper(profile),
+  right: createCalibratedMapper(profile)
+});
+
+// The countdown is shown in whole seconds, so the HUD only re-renders when the digit changes
+const toGameState = ({ status, health, score, wave, waveLabel, beamCharges, maxBeamCharges, unibeam, overload, resumeIn }: GameSnapshot): GameState =>
+  ({ status, health, score, wave, waveLabel, beamCharges, maxBeamCharges, unibeam, overload, resumeIn: resumeIn === null ? null : Math.ceil(resumeIn) });
+
+// Saved progress is untrusted: drop anything an older or edited save got wrong
+const loadSuitProgress = (): SuitProgress => {
+  const saved = loadSetting<Partial<SuitProgress>>(SUIT_STORAGE_KEY, {});
+  const credits = typeof saved.credits === 'number' && Number.isFinite(saved.credits) ? Math.max(0, Math.floor(saved.credits)) : 0;
+  return { credits, loadout: sanitizeLoadout(saved.loadout) };
+};
 
-// --- Helper Functions ---
+const upgradeAffordable = ({ credits, loadout }: SuitProgress) =>
+  UPGRADES.some(u => canBuyUpgrade(loadout, u.id, credits));
 
-const createTextTexture = (text: string, color: string) => {
-  const canvas = document.createElement('canvas');
-  canvas.width = 256;
-  canvas.height = 256;
-  const ctx = canvas.getContext('2d');
-  if (ctx) {
-    ctx.font = 'bold 140px monospace';
-    ctx.fillStyle = color;
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    ctx.shadowColor = color;
-    ctx.shadowBlur = 20;
-    ctx.fillText(text, 128, 128);
+const objectiveText = (objective: WaveObjective) => {
+  switch (objective.type) {
+    case 'timer': return `T-${objective.secondsLeft.toFixed(1)}`;
+    case 'kills': return `${objective.remaining} KILLS LEFT`;
+    case 'clear': return `${objective.remaining} HOSTILES LEFT`;
+    case 'boss': return 'BOSS';
   }
-  const tex = new THREE.CanvasTexture(canvas);
-  return tex;
+};
+
+// Bar colour per buff, matching the pickup orbs
+const BUFF_COLORS: Record<BuffKind, string> = {
+  shield: 'bg-emerald-400',
+  rapid_fire: 'bg-orange-400',
+  focus: 'bg-violet-400'
+};
+
+const BONUS_LABELS: Record<ScoreBonus, string> = {
+  multi_kill: 'MULTI-KILL',
+  long_range: 'LONG SHOT',
+  no_damage: 'FLAWLESS WAVE'
 };
 
 // --- Helper Components ---
 
+const Reticle = ({
+  x,
+  y,
+  isFiring,
+  hitMarker,
+  beamPrimed,
+  label
+}: {
+  x: number;
+  y: number;
+  isFiring: boolean;
+  hitMarker: boolean;
+  beamPrimed: boolean;
+  label: string | null;
+}) => (
+  <div 
+    className="fixed pointer-events-none z-20 will-change-transform"
+    style={{ 
+        left: `${x * 100}%`, 
+        top: `${y * 100}%`,
+        transform: 'translate(-50%, -50%)'
+    }}
+  >
+     {/* Outer Ring */}
+     <div 
+        className={`rounded-full border border-cyan-400/60 flex items-center justify-center transition-all duration-100
+            ${isFiring ? 'w-16 h-16 scale-110 opacity-100' : 'w-8 h-8 opacity-60'}
+            ${beamPrimed ? 'border-blue-400 shadow-[0_0_20px_#3b82f6]' : 'shadow-[0_0_10px_cyan]'}
+        `}
+      >
+        {/* Center Dot */}
+        <div className={`w-1 h-1 rounded-full ${beamPrimed ? 'bg-blue-400' : 'bg-cyan-300'}`}></div>
+      </div>
+      
+      {/* Hit Marker */}
+      {hitMarker && (
+          <div className="absolute inset-0 flex items-center justify-center">
+              <div className="absolute w-[2px] h-6 bg-red-500 rotate-45 shadow-[0_0_8px_red]"></div>
+              <div className="absolute w-[2px] h-6 bg-red-500 -rotate-45 shadow-[0_0_8px_red]"></div>
+          </div>
+      )}
+
+      {/* Gesture Label */}
+      {label && (
+        <div className="absolute top-10 left-1/2 -translate-x-1/2 text-[9px] font-mono text-cyan-300 whitespace-nowrap uppercase tracking-widest bg-black/50 px-1">
+           {label}
+        </div>
+      )}
+  </div>
+);
+
+// The seed a run was started with; daily runs also carry their challenge date
+interface RunInfo {
+  seed: number;
+  daily: string | null;
+}
+
+// ?seed=1A2B3C4D replays a specific run
+const urlSeed = () => parseSeed(new URLSearchParams(window.location.search).get('seed') ?? '');
+
 const HUD = ({ 
   gameState, 
-  timer, 
+  objective,
+  run,
   onStart,
+  onStartDaily,
+  pauseReason,
+  onResume,
+  onCalibrate,
+  onEditBindings,
+  onEditCamera,
+  onEditSmoothing,
+  onOpenArmory,
+  suit,
+  runCredits,
   hitMarker,
-  isFiring,
-  handInput
+  firingHand,
+  handInput,
+  bindings,
+  shieldStatus,
+  boss,
+  combo,
+  bonus,
+  buffs,
+  inputOptions,
+  onToggleInput,
+  dualHands,
+  onToggleDualHands,
+  gestureNotice
 }: { 
   gameState: GameState; 
-  timer: number; 
+  objective: string; // See objectiveText
+  run: RunInfo | null;
   onStart: () => void;
+  onStartDaily: () => void;
+  pauseReason: PauseReason | null;
+  onResume: () => void;
+  onCalibrate: () => void;
+  onEditBindings: () => void;
+  onEditCamera: () => void;
+  onEditSmoothing: () => void;
+  onOpenArmory: () => void;
+  suit: SuitProgress;
+  runCredits: number; // Banked so far this run
   hitMarker: boolean;
-  isFiring: boolean;
+  firingHand: FiringHand | null;
   handInput: HandInput;
+  bindings: GestureBindings;
+  shieldStatus: 'ready' | 'active' | 'cooldown';
+  boss: BossSnapshot | null;
+  combo: ComboSnapshot;
+  bonus: string | null; // Latest score bonus, briefly
+  buffs: BuffSnapshot[];
+  inputOptions: { id: InputSourceId; label: string; enabled: boolean }[];
+  onToggleInput: (id: InputSourceId) => void;
+  dualHands: boolean;
+  onToggleDualHands: () => void;
+  gestureNotice: string | null; // Set when gesture control is unavailable
 }) => {
   const hpPercent = Math.max(0, gameState.health);
   const beamAmmo = gameState.beamCharges;
   const beamReady = beamAmmo > 0;
+
+  const reticleAction = bindings[handInput.gesture] ?? 'none';
+  const beamPrimed = beamReady && reticleAction === 'unibeam';
+  const beamGestures = getBoundGestures(bindings, 'unibeam').map(g => g.short);
+  const overloadGestures = getBoundGestures(bindings, 'overload').map(g => g.short);
+  const pauseGestures = getBoundGestures(bindings, 'pause').map(g => g.short);
+  const inRun = gameState.status === 'playing' || gameState.status === 'paused';
+  const commandHints = BINDABLE_ACTIONS
+    .filter(a => a.action !== 'none')
+    .map(a => ({ ...a, gestures: getBoundGestures(bindings, a.action) }))
+    .filter(a => a.gestures.length > 0);
   
   let hpColor = "bg-cyan-400";
   if (hpPercent < 50) hpColor = "bg-yellow-400";
   if (hpPercent < 20) hpColor = "bg-red-500 animate-pulse";
 
-  const reticleX = handInput.x * 100;
-  const reticleY = handInput.y * 100;
-
   return (
     <div className="absolute inset-0 pointer-events-none select-none font-sans text-white">
       {hpPercent < 30 && (
         <div className="absolute inset-0 shadow-[inset_0_0_100px_rgba(239,68,68,0.5)] animate-pulse z-0"></div>
       )}
+      {shieldStatus === 'active' && (
+        <div className="absolute inset-0 shadow-[inset_0_0_120px_rgba(52,211,153,0.45)] z-0"></div>
+      )}
+      {buffs.some(b => b.kind === 'focus') && (
+        <div className="absolute inset-0 shadow-[inset_0_0_160px_rgba(167,139,250,0.4)] z-0"></div>
+      )}
 
-      {gameState.status === 'playing' && (
+      {inRun && (
         <>
           {/* Top Left: Score & Wave */}
           <div className="absolute top-6 left-6 flex flex-col gap-1 z-10">
@@ -151,11 +372,52 @@ const HUD = ({
               {gameState.score.toString().padStart(6, '0')}
             </div>
             <div className="flex items-center gap-2 text-cyan-100/80">
-              <span className="text-xs bg-cyan-900/50 px-2 py-0.5 rounded border border-cyan-500/30">WAVE {gameState.wave}</span>
-              <span className="text-xs font-mono text-cyan-500/80">T-{timer.toFixed(1)}</span>
+              <span className="text-xs bg-cyan-900/50 px-2 py-0.5 rounded border border-cyan-500/30">
+                WAVE {gameState.wave}{gameState.waveLabel && ` // ${gameState.waveLabel}`}
+              </span>
+              {boss ? (
+                <span className="text-xs font-mono text-red-400 animate-pulse">BOSS</span>
+              ) : (
+                <span className="text-xs font-mono text-cyan-500/80">{objective}</span>
+              )}
             </div>
+
+            {/* Combo: multiplier and the time left to keep the chain going */}
+            {combo.hits > 0 && (
+              <div className="mt-2 w-40">
+                <div className="flex items-baseline gap-2 font-mono">
+                  <span className={`text-2xl font-black italic ${combo.multiplier > 1 ? 'text-yellow-300 drop-shadow-[0_0_8px_rgba(253,224,71,0.8)]' : 'text-cyan-200/70'}`}>
+                    x{combo.multiplier}
+                  </span>
+                  <span className="text-[10px] text-cyan-500/80 tracking-widest">{combo.hits} HIT COMBO</span>
+                </div>
+                <div className="h-1 bg-slate-900/80 border border-slate-700 mt-1">
+                  <div className="h-full bg-yellow-300 shadow-[0_0_6px_currentColor]" style={{ width: `${combo.decay * 100}%` }} />
+                </div>
+              </div>
+            )}
+            {bonus && (
+              <div className="mt-1 text-xs font-mono font-bold text-orange-300 tracking-widest animate-pulse">{bonus}</div>
+            )}
           </div>
 
+          {/* Top Right: Active Buffs, each draining as it runs out */}
+          {buffs.length > 0 && (
+            <div className="absolute top-6 right-6 flex flex-col gap-2 w-44 z-10">
+              {buffs.map(buff => (
+                <div key={buff.kind}>
+                  <div className="flex justify-between text-[10px] font-mono tracking-widest text-slate-200 mb-1">
+                    <span>{PICKUPS[buff.kind].label}</span>
+                    <span>{buff.secondsLeft.toFixed(1)}s</span>
+                  </div>
+                  <div className="h-1.5 bg-slate-900/80 border border-slate-700">
+                    <div className={`h-full ${BUFF_COLORS[buff.kind]} shadow-[0_0_6px_currentColor]`} style={{ width: `${buff.remaining * 100}%` }} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Top Center: Health Bar */}
           <div className="absolute top-6 left-1/2 -translate-x-1/2 w-96 z-10">
             <div className="flex justify-between text-[10px] text-cyan-500 mb-1 font-mono tracking-widest">
@@ -172,49 +434,63 @@ const HUD = ({
             </div>
           </div>
 
-          {/* Dynamic Reticle */}
-          <div 
-            className="fixed pointer-events-none z-20 will-change-transform"
-            style={{ 
-                left: `${reticleX}%`, 
-                top: `${reticleY}%`,
-                transform: 'translate(-50%, -50%)'
-            }}
-          >
-             {/* Outer Ring */}
-             <div 
-                className={`rounded-full border border-cyan-400/60 flex items-center justify-center transition-all duration-100
-                    ${isFiring ? 'w-16 h-16 scale-110 opacity-100' : 'w-8 h-8 opacity-60'}
-                    ${handInput.gesture === 'Open_Palm' && beamReady ? 'border-blue-400 shadow-[0_0_20px_#3b82f6]' : 'shadow-[0_0_10px_cyan]'}
-                `}
-              >
-                {/* Center Dot */}
-                <div className={`w-1 h-1 rounded-full ${beamReady && handInput.gesture === 'Open_Palm' ? 'bg-blue-400' : 'bg-cyan-300'}`}></div>
+          {/* Boss Health Bar: one segment per phase, drained right to left */}
+          {boss && (
+            <div className="absolute top-20 left-1/2 -translate-x-1/2 w-[32rem] z-10">
+              <div className="flex justify-between text-[10px] text-red-400 mb-1 font-mono tracking-widest">
+                <span>{`${boss.label} // PHASE ${boss.phase + 1}/${boss.phaseCount}`}</span>
+                {boss.immune ? (
+                  <span className="text-cyan-300 animate-pulse">SHIELDED</span>
+                ) : (
+                  <span>{Math.ceil((boss.hp / boss.maxHp) * 100)}%</span>
+                )}
               </div>
-              
-              {/* Hit Marker */}
-              {hitMarker && (
-                  <div className="absolute inset-0 flex items-center justify-center">
-                      <div className="absolute w-[2px] h-6 bg-red-500 rotate-45 shadow-[0_0_8px_red]"></div>
-                      <div className="absolute w-[2px] h-6 bg-red-500 -rotate-45 shadow-[0_0_8px_red]"></div>
-                  </div>
-              )}
-
-              {/* Gesture Label */}
-              {handInput.detected && (
-                <div className="absolute top-10 left-1/2 -translate-x-1/2 text-[9px] font-mono text-cyan-300 whitespace-nowrap uppercase tracking-widest bg-black/50 px-1">
-                   {handInput.gesture === 'Closed_Fist' ? 'REPULSOR' : 
-                    handInput.gesture === 'Open_Palm' ? 'UNIBEAM' : 'TRACKING'}
-                </div>
-              )}
-          </div>
+              <div className="h-4 bg-slate-900/80 border border-red-900 skew-x-[-12deg] relative">
+                <div
+                  className={`h-full transition-all duration-200 ${boss.immune ? 'bg-cyan-400/60' : 'bg-red-600'} shadow-[0_0_12px_currentColor]`}
+                  style={{ width: `${(boss.hp / boss.maxHp) * 100}%` }}
+                ></div>
+                {Array.from({ length: boss.phaseCount - 1 }, (_, i) => (
+                  <div
+                    key={i}
+                    className="absolute top-0 bottom-0 w-[2px] bg-black/80"
+                    style={{ left: `${((i + 1) / boss.phaseCount) * 100}%` }}
+                  ></div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Dynamic Reticle(s) */}
+          {handInput.hands && handInput.hands.length > 0 ? (
+            handInput.hands.map(hand => (
+              <Reticle
+                key={hand.side}
+                x={hand.x}
+                y={hand.y}
+                isFiring={firingHand === hand.side}
+                hitMarker={hitMarker}
+                beamPrimed={beamReady && bindings[hand.gesture] === 'unibeam'}
+                label={`${hand.side === 'left' ? 'L' : 'R'} // ${getActionInfo(bindings[hand.gesture] ?? 'none').reticle}`}
+              />
+            ))
+          ) : (
+            <Reticle
+              x={handInput.x}
+              y={handInput.y}
+              isFiring={firingHand !== null}
+              hitMarker={hitMarker}
+              beamPrimed={beamPrimed}
+              label={handInput.detected ? getActionInfo(reticleAction).reticle : null}
+            />
+          )}
 
           {/* Bottom Center: Beam Status */}
           <div className="absolute bottom-12 left-1/2 -translate-x-1/2 text-center flex flex-col items-center gap-4 z-10">
             <div className="flex flex-col items-center gap-1">
                <div className="text-[10px] font-mono text-cyan-600 tracking-[0.2em] mb-1">UNIBEAM CAPACITOR</div>
                <div className="flex gap-1">
-                 {[...Array(MAX_BEAM_CHARGES)].map((_, i) => (
+                 {[...Array(gameState.maxBeamCharges)].map((_, i) => (
                     <div 
                         key={i}
                         className={`w-12 h-3 skew-x-[-12deg] border border-slate-800 transition-all duration-300
@@ -226,16 +502,66 @@ const HUD = ({
                     />
                  ))}
                </div>
-               <div className={`mt-2 text-xs font-bold tracking-widest ${beamReady ? 'text-blue-300 animate-pulse drop-shadow-[0_0_8px_rgba(59,130,246,0.8)]' : 'text-slate-500'}`}>
-                 {beamReady ? '[ UNIBEAM READY // GESTURE: PALM ]' : `RECHARGING... ${beamAmmo}/${MAX_BEAM_CHARGES}`}
+               <div className={`mt-2 text-xs font-bold tracking-widest ${
+                   gameState.unibeam !== 'idle' ? 'text-white drop-shadow-[0_0_8px_rgba(59,130,246,0.8)]' :
+                   beamReady ? 'text-blue-300 animate-pulse drop-shadow-[0_0_8px_rgba(59,130,246,0.8)]' : 'text-slate-500'}`}>
+                 {gameState.unibeam === 'firing' ? '[ UNIBEAM FIRING // SWEEP TO AIM ]' :
+                  gameState.unibeam === 'charging' ? '[ UNIBEAM CHARGING // HOLD ]' :
+                  beamReady ? `[ UNIBEAM READY // HOLD ${beamGestures.length > 0 ? `GESTURE: ${beamGestures.join(' / ')}` : 'KEY: SPACE'} ]` :
+                  `RECHARGING... ${beamAmmo}/${gameState.maxBeamCharges}`}
+               </div>
+               <div className={`text-[10px] font-mono tracking-[0.2em] ${
+                   shieldStatus === 'active' ? 'text-emerald-300 animate-pulse' :
+                   shieldStatus === 'ready' ? 'text-emerald-600' : 'text-slate-600'}`}>
+                 {shieldStatus === 'active' ? 'DEFLECTOR SHIELD ACTIVE' :
+                  shieldStatus === 'ready' ? 'SHIELD READY' : 'SHIELD RECHARGING'}
+               </div>
+               <div className={`text-[10px] font-mono tracking-[0.2em] ${gameState.overload === 'ready' ? 'text-violet-400' : 'text-slate-600'}`}>
+                 {gameState.overload === 'ready'
+                   ? `OVERLOAD READY // ${overloadGestures.length > 0 ? overloadGestures.join(' / ') : 'KEY: Q'}`
+                   : 'OVERLOAD RECHARGING'}
                </div>
             </div>
           </div>
         </>
       )}
 
+      {/* Pause Overlay */}
+      {gameState.status === 'paused' && (
+        <div className="absolute inset-0 bg-black/70 backdrop-blur-[2px] flex items-center justify-center pointer-events-auto z-50">
+          {gameState.resumeIn !== null ? (
+            <div className="flex flex-col items-center gap-2">
+              <div className="text-[10px] font-mono tracking-[0.5em] text-cyan-600">RESUMING</div>
+              <div key={gameState.resumeIn} className="text-8xl font-black italic text-cyan-300 drop-shadow-[0_0_20px_rgba(34,211,238,0.8)] animate-pulse">
+                {gameState.resumeIn}
+              </div>
+            </div>
+          ) : (
+            <div className="bg-slate-900/90 border border-yellow-500/30 px-10 py-8 w-96 text-center shadow-[0_0_60px_rgba(250,204,21,0.15)]">
+              <div className="text-yellow-400 font-bold text-2xl tracking-[0.3em] mb-1">{PAUSE_REASON_INFO[pauseReason ?? 'manual'].label}</div>
+              <div className="text-[10px] font-mono tracking-widest text-slate-500 mb-6">{PAUSE_REASON_INFO[pauseReason ?? 'manual'].hint}</div>
+              <button
+                onClick={onResume}
+                className="w-full py-3 bg-cyan-500/5 hover:bg-cyan-400/10 border border-cyan-500/50 hover:border-cyan-400 text-cyan-300 font-bold tracking-[0.2em] transition-colors"
+              >
+                RESUME
+              </button>
+              <button
+                onClick={onOpenArmory}
+                className="mt-2 w-full py-2 text-[10px] font-mono tracking-[0.2em] border border-amber-500/40 text-amber-400/80 hover:border-amber-400 hover:text-amber-300 transition-colors"
+              >
+                ARMORY // {suit.credits} CR
+              </button>
+              <div className="mt-3 text-[10px] font-mono tracking-widest text-slate-600">
+                P / ESC / START{pauseGestures.length > 0 ? ` / ${pauseGestures.join(' / ')}` : ''}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Menu / Game Over Modal */}
-      {gameState.status !== 'playing' && (
+      {!inRun && (
         <div className="absolute inset-0 bg-black/90 backdrop-blur-sm flex items-center justify-center pointer-events-auto z-50">
           <div className="bg-slate-900/90 border border-cyan-500/30 p-10 max-w-lg w-full shadow-[0_0_100px_rgba(6,182,212,0.2)] relative overflow-hidden clip-path-polygon">
              <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-cyan-500 to-transparent opacity-50"></div>
@@ -251,6 +577,18 @@ const HUD = ({
                <div className="mb-8 text-center bg-red-900/20 border border-red-900/50 p-4 rounded">
                  <div className="text-red-500 font-bold text-3xl mb-1 tracking-tighter">CRITICAL FAILURE</div>
                  <div className="text-slate-400 font-mono text-sm">FINAL SCORE // <span className="text-white font-bold text-lg">{gameState.score}</span></div>
+                 {run && (
+                   <div className="mt-2 text-[10px] font-mono tracking-widest text-slate-500">
+                     {run.daily ? `DAILY ${run.daily} // ` : ''}SEED // <span className="text-cyan-300 select-text">{formatSeed(run.seed)}</span>
+                   </div>
+                 )}
+                 <div className="mt-1 text-[10px] font-mono tracking-widest text-amber-400">+{runCredits} CREDITS</div>
+               </div>
+             )}
+
+             {gestureNotice && (
+               <div className="mb-4 text-center text-[10px] font-mono tracking-widest text-yellow-400 border border-yellow-500/30 bg-yellow-900/10 py-2">
+                 GESTURE CONTROL UNAVAILABLE // {gestureNotice}
                </div>
              )}
 
@@ -262,11 +600,77 @@ const HUD = ({
                <div className="absolute inset-0 bg-cyan-400/20 translate-y-full group-hover:translate-y-0 transition-transform duration-300"></div>
              </button>
 
+             <button
+               onClick={onStartDaily}
+               className="mt-2 w-full py-2 text-[10px] font-mono tracking-[0.2em] border border-yellow-500/40 text-yellow-400/80 hover:border-yellow-400 hover:text-yellow-300 transition-colors"
+             >
+               DAILY CHALLENGE // {dailyChallengeDate()}
+             </button>
+
+             <button
+               onClick={onOpenArmory}
+               className="mt-2 w-full py-2 text-[10px] font-mono tracking-[0.2em] border border-amber-500/40 text-amber-400/80 hover:border-amber-400 hover:text-amber-300 transition-colors"
+             >
+               ARMORY // MARK {loadoutLevels(suit.loadout) + 1} // {suit.credits} CR
+                {upgradeAffordable(suit) && <span className="ml-2 text-amber-300 animate-pulse">UPGRADE AVAILABLE</span>}
+             </button>
+
              <div className="mt-6 flex justify-between text-[10px] text-slate-600 font-mono text-center w-full">
-               <span className="flex-1 border-r border-slate-800">FIST: SHOOT</span>
-               <span className="flex-1 border-r border-slate-800">PALM: UNIBEAM</span>
+               {commandHints.map(hint => (
+                 <span key={hint.action} className="flex-1 border-r border-slate-800 uppercase">
+                   {hint.gestures.map(g => g.short).join('/')}: {hint.label}
+                 </span>
+               ))}
                <span className="flex-1">HAND: AIM</span>
              </div>
+
+             <div className="mt-3 grid grid-cols-2 gap-2">
+               <button
+                 onClick={onCalibrate}
+                 className="flex-1 py-2 text-[10px] font-mono tracking-[0.2em] border border-slate-700 text-slate-400 hover:border-cyan-500/50 hover:text-cyan-300 transition-colors"
+               >
+                 CALIBRATE REACH
+               </button>
+               <button
+                 onClick={onEditBindings}
+                 className="flex-1 py-2 text-[10px] font-mono tracking-[0.2em] border border-slate-700 text-slate-400 hover:border-cyan-500/50 hover:text-cyan-300 transition-colors"
+               >
+                 GESTURE BINDINGS
+               </button>
+               <button
+                 onClick={onEditCamera}
+                 className="flex-1 py-2 text-[10px] font-mono tracking-[0.2em] border border-slate-700 text-slate-400 hover:border-cyan-500/50 hover:text-cyan-300 transition-colors"
+               >
+                 OPTICS
+               </button>
+               <button
+                 onClick={onEditSmoothing}
+                 className="flex-1 py-2 text-[10px] font-mono tracking-[0.2em] border border-slate-700 text-slate-400 hover:border-cyan-500/50 hover:text-cyan-300 transition-colors"
+               >
+                 AIM SMOOTHING
+               </button>
+             </div>
+
+             <div className="mt-4 flex gap-2">
+               {inputOptions.map(opt => (
+                 <button
+                   key={opt.id}
+                   onClick={() => onToggleInput(opt.id)}
+                   className={`flex-1 py-1 text-[10px] font-mono tracking-widest border transition-colors
+                     ${opt.enabled ? 'border-cyan-500/60 text-cyan-300 bg-cyan-500/10' : 'border-slate-700 text-slate-600'}`}
+                 >
+                   {opt.label}
+                 </button>
+               ))}
+             </div>
+
+             <button
+               onClick={onToggleDualHands}
+               className={`mt-2 w-full py-1 text-[10px] font-mono tracking-widest border transition-colors
+                 ${dualHands ? 'border-cyan-500/60 text-cyan-300 bg-cyan-500/10' : 'border-slate-700 text-slate-600'}`}
+             >
+               DUAL REPULSORS // {dualHands ? 'TWO HANDS' : 'ONE HAND'}
+             </button>
           </div>
         </div>
       )}
@@ -283,48 +687,52 @@ const App: React.FC = () => {
   const audioCtxRef = useRef<AudioContext | null>(null);
   
   // Game Engine Refs
-  const sceneRef = useRef<THREE.Scene | null>(null);
-  const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
-  const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
   const frameIdRef = useRef<number>(0);
-  const enemiesRef = useRef<Enemy[]>([]);
-  const activeLinesRef = useRef<{ mesh: THREE.Mesh; timestamp: number }[]>([]);
-  const electricalArcsRef = useRef<ElectricalArc[]>([]);
-  const shockwavesRef = useRef<Shockwave[]>([]); 
-  const particlesRef = useRef<Particle[]>([]);
-  const damageTextsRef = useRef<DamageText[]>([]);
-  const shakeIntensityRef = useRef<number>(0);
-  const muzzleLightRef = useRef<THREE.PointLight | null>(null);
-  const gridHelperRef = useRef<THREE.GridHelper | null>(null);
-  const starsRef = useRef<THREE.Points | null>(null);
+  // Created once per mount; status and wave changes are read from the engine, never re-run the effect
+  const engineRef = useRef(createGameEngine());
+  const viewRef = useRef<GameRenderer | null>(null);
+
+  // In-thread recognizer; only set when the worker could not start
+  const gestureRecognizerRef = useRef<GestureRecognizer | null>(null);
+  const workerRecognizerRef = useRef<WorkerRecognizer | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const cameraRequestRef = useRef(0);
+  const inputManagerRef = useRef<InputManager | null>(null);
+  const recorderRef = useRef(createLandmarkRecorder());
+  // When set, replayed landmark frames stand in for the webcam recognizer
+  const playbackRef = useRef<RecognizeFn | null>(null);
+  // Latest uncalibrated (mirrored) fingertip position, null while no hand is tracked
+  const rawAimRef = useRef<{ x: number; y: number } | null>(null);
+  // Latest classified recognizer output, drawn over the optics preview
+  const trackerFrameRef = useRef<{ time: number; results: GestureResults } | null>(null);
+  // One mapper per hand, since each keeps its own jitter dead-zone anchor
+  const calibratedAimRef = useRef(createAimMappers(loadSetting(CALIBRATION_STORAGE_KEY, DEFAULT_CALIBRATION)));
+  // Set when the calibration wizard was opened from the start button
+  const startAfterCalibrationRef = useRef(false);
+  const calibrationOfferedRef = useRef(false);
+  // Whether the pending start (possibly deferred by calibration) is a daily challenge run
+  const dailyRunRef = useRef(false);
+  // Score already turned into credits this run
+  const bankedScoreRef = useRef(0);
+  const pauseReasonRef = useRef<PauseReason | null>(null);
+  const gestureBindingsRef = useRef<GestureBindings>(DEFAULT_GESTURE_BINDINGS);
+  const dualHandsRef = useRef(false);
+  const nicknameRef = useRef('');
+  const cameraSettingsRef = useRef<CameraSettings>(DEFAULT_CAMERA_SETTINGS);
   
-  // Cached Assets (Performance Optimization)
-  const sharedMaterialsRef = useRef<{
-    particle: THREE.MeshBasicMaterial;
-    enemy: THREE.MeshStandardMaterial;
-    enemyRing: THREE.MeshBasicMaterial;
-    shockwave: THREE.MeshBasicMaterial;
-  } | null>(null);
-  const sharedGeometriesRef = useRef<{
-    particle: THREE.TetrahedronGeometry;
-    enemy: THREE.SphereGeometry;
-    enemyRing: THREE.TorusGeometry;
-    hitbox: THREE.SphereGeometry;
-    omniSphere: THREE.SphereGeometry;
-  } | null>(null);
-  
-  const lastShotTimeRef = useRef<number>(0);
-  const waveStartTimeRef = useRef<number>(0);
-  const gestureRecognizerRef = useRef<any>(null);
-  const lastGestureTimeRef = useRef<number>(0);
-  
-  const beamRegenTimerRef = useRef<number>(0);
 
   // Input & Aiming Refs
   // cursorPositionRef tracks the SMOOTHED 0-1 coords used for rendering
   const cursorPositionRef = useRef({ x: 0.5, y: 0.5 });
   // targetCursorPositionRef tracks the RAW 0-1 coords from input
   const targetCursorPositionRef = useRef({ x: 0.5, y: 0.5 });
+  // Source that last moved the target, so mouse aim can skip smoothing
+  const aimSourceRef = useRef<InputSourceId | null>(null);
+  const cursorFilterRef = useRef<CursorFilterSettings>(DEFAULT_CURSOR_FILTER);
+  // Per-hand equivalents of the two refs above, used in two-handed mode
+  const handCursorsRef = useRef<Record<HandSide, { x: number; y: number }>>({ left: { x: 0.4, y: 0.5 }, right: { x: 0.6, y: 0.5 } });
+  const handTargetsRef = useRef<Record<HandSide, { x: number; y: number }>>({ left: { x: 0.4, y: 0.5 }, right: { x: 0.6, y: 0.5 } });
+  const trackedHandsRef = useRef<TrackedHand[]>([]);
 
   // Firebase Refs
   const dbRef = useRef<any>(null);
@@ -332,23 +740,56 @@ const App: React.FC = () => {
   const userIdRef = useRef<string | null>(null);
 
   // --- State ---
-  const [gameState, setGameState] = useState<GameState>({
-    status: 'menu',
-    health: 100,
-    score: 0,
-    wave: 1,
-    enemies: [],
-    beamCharges: 5 
-  });
-  const [timer, setTimer] = useState(45);
+  const [gameState, setGameState] = useState<GameState>(() => toGameState(engineRef.current.snapshot()));
+  const [objective, setObjective] = useState(() => objectiveText(engineRef.current.snapshot().objective));
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [nickname, setNickname] = useState(`STARK-${Math.floor(Math.random() * 999)}`);
   const [hitMarker, setHitMarker] = useState(false);
-  const [isFiring, setIsFiring] = useState(false);
+  const [firingHand, setFiringHand] = useState<FiringHand | null>(null);
   const [handInput, setHandInput] = useState<HandInput>({ x: 0.5, y: 0.5, detected: false, gesture: 'None' });
+  const [enabledInputs, setEnabledInputs] = useState<InputSourceId[]>(['gesture', 'gamepad', 'mouse']);
+  const [isRecording, setIsRecording] = useState(false);
+  const [replayName, setReplayName] = useState<string | null>(null);
+  const [calibrating, setCalibrating] = useState(false);
+  const [gestureStatus, setGestureStatus] = useState<GestureStatus>({ state: 'loading' });
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(() => loadSetting(CAMERA_STORAGE_KEY, DEFAULT_CAMERA_SETTINGS));
+  const [cameraStatus, setCameraStatus] = useState<CameraStatus>('starting');
+  const [cameraDevices, setCameraDevices] = useState<MediaDeviceInfo[]>([]);
+  const [streamInfo, setStreamInfo] = useState('');
+  const [editingCamera, setEditingCamera] = useState(false);
+  const [cursorFilter, setCursorFilter] = useState<CursorFilterSettings>(() => loadSetting(CURSOR_FILTER_STORAGE_KEY, DEFAULT_CURSOR_FILTER));
+  const [editingCursorFilter, setEditingCursorFilter] = useState(false);
+  const [gestureBindings, setGestureBindings] = useState<GestureBindings>(() => loadSetting(GESTURE_BINDINGS_STORAGE_KEY, DEFAULT_GESTURE_BINDINGS));
+  const [editingBindings, setEditingBindings] = useState(false);
+  const [dualHands, setDualHands] = useState<boolean>(() => loadSetting(DUAL_HANDS_STORAGE_KEY, false));
+  const [shieldStatus, setShieldStatus] = useState<'ready' | 'active' | 'cooldown'>('ready');
+  const [run, setRun] = useState<RunInfo | null>(null);
+  const [suit, setSuit] = useState<SuitProgress>(loadSuitProgress);
+  const [runCredits, setRunCredits] = useState(0);
+  const [editingArmory, setEditingArmory] = useState(false);
+  const [pauseReason, setPauseReason] = useState<PauseReason | null>(null);
+  const [boss, setBoss] = useState<BossSnapshot | null>(null);
+  const [combo, setCombo] = useState<ComboSnapshot>(() => engineRef.current.snapshot().combo);
+  const [bonus, setBonus] = useState<string | null>(null);
+  const [buffs, setBuffs] = useState<BuffSnapshot[]>([]);
+
+  // The input layer polls outside React, so it reads the latest bindings through a ref
+  gestureBindingsRef.current = gestureBindings;
+  dualHandsRef.current = dualHands;
+  cameraSettingsRef.current = cameraSettings;
+  cursorFilterRef.current = cursorFilter;
+  // Read when a run ends inside the mount-once game loop
+  nicknameRef.current = nickname;
+
+  // Saved on every change, including the credits the game loop banks. Upgrades bought mid-run
+  // install when the next wave starts; daily runs stay in the stock suit.
+  useEffect(() => {
+    saveSetting(SUIT_STORAGE_KEY, suit);
+    if (!dailyRunRef.current) engineRef.current.setLoadout(suit.loadout);
+  }, [suit]);
 
   // --- Audio Helper ---
-  const playSound = useCallback((type: 'shoot' | 'hit' | 'beam' | 'alarm' | 'low_hp') => {
+  const playSound = useCallback((type: 'shoot' | 'hit' | 'beam' | 'beam_charge' | 'alarm' | 'low_hp' | 'shield' | 'charge' | 'combo' | 'pickup') => {
     if (!audioCtxRef.current) return;
     const ctx = audioCtxRef.current;
     const t = ctx.currentTime;
@@ -401,6 +842,14 @@ const App: React.FC = () => {
         
         osc.start(t);
         osc.stop(t + 1.0);
+    } else if (type === 'shield') {
+        osc.type = 'triangle';
+        osc.frequency.setValueAtTime(220, t);
+        osc.frequency.exponentialRampToValueAtTime(660, t + 0.3);
+        gain.gain.setValueAtTime(0.15, t);
+        gain.gain.exponentialRampToValueAtTime(0.001, t + 0.4);
+        osc.start(t);
+        osc.stop(t + 0.4);
     } else if (type === 'low_hp') {
         osc.type = 'sine';
         osc.frequency.setValueAtTime(800, t);
@@ -409,6 +858,55 @@ const App: React.FC = () => {
         gain.gain.linearRampToValueAtTime(0, t + 0.2);
         osc.start(t);
         osc.stop(t + 0.2);
+    } else if (type === 'charge') {
+        // Incoming fire warning, timed to roughly the enemy's charge-up
+        osc.type = 'square';
+        osc.frequency.setValueAtTime(300, t);
+        osc.frequency.linearRampToValueAtTime(900, t + 0.8);
+        gain.gain.setValueAtTime(0.0, t);
+        gain.gain.linearRampToValueAtTime(0.04, t + 0.7);
+        gain.gain.linearRampToValueAtTime(0, t + 0.9);
+        osc.start(t);
+        osc.stop(t + 0.9);
+    } else if (type === 'beam_charge') {
+        // Whine that peaks as the unibeam fires
+        osc.type = 'sine';
+        osc.frequency.setValueAtTime(200, t);
+        osc.frequency.exponentialRampToValueAtTime(1200, t + BEAM_CHARGE_MS / 1000);
+        gain.gain.setValueAtTime(0.0, t);
+        gain.gain.linearRampToValueAtTime(0.08, t + BEAM_CHARGE_MS / 1000);
+        gain.gain.linearRampToValueAtTime(0, t + BEAM_CHARGE_MS / 1000 + 0.05);
+        osc.start(t);
+        osc.stop(t + BEAM_CHARGE_MS / 1000 + 0.05);
+    } else if (type === 'alarm') {
+        // Two-tone klaxon for a boss arrival or phase change
+        osc.type = 'square';
+        [0, 0.4, 0.8].forEach(offset => {
+            osc.frequency.setValueAtTime(440, t + offset);
+            osc.frequency.setValueAtTime(330, t + offset + 0.2);
+        });
+        gain.gain.setValueAtTime(0.06, t);
+        gain.gain.linearRampToValueAtTime(0, t + 1.2);
+        osc.start(t);
+        osc.stop(t + 1.2);
+    } else if (type === 'combo') {
+        // Rising chirp when the multiplier steps up
+        osc.type = 'triangle';
+        osc.frequency.setValueAtTime(660, t);
+        osc.frequency.exponentialRampToValueAtTime(1320, t + 0.12);
+        gain.gain.setValueAtTime(0.08, t);
+        gain.gain.exponentialRampToValueAtTime(0.001, t + 0.2);
+        osc.start(t);
+        osc.stop(t + 0.2);
+    } else if (type === 'pickup') {
+        // Two quick rising notes
+        osc.type = 'sine';
+        osc.frequency.setValueAtTime(880, t);
+        osc.frequency.setValueAtTime(1320, t + 0.08);
+        gain.gain.setValueAtTime(0.1, t);
+        gain.gain.exponentialRampToValueAtTime(0.001, t + 0.25);
+        osc.start(t);
+        osc.stop(t + 0.25);
     }
   }, []);
 
@@ -421,13 +919,57 @@ const App: React.FC = () => {
         authRef.current = getAuth(app);
         signInAnonymously(authRef.current).then(creds => {
             userIdRef.current = creds.user.uid;
-        });
+        }).catch(e => console.error("Firebase Auth Error:", e));
       } catch (e) {
         console.error("Firebase Init Error:", e);
       }
     }
   }, []);
 
+  // --- Camera ---
+  const startCamera = async (settings: CameraSettings) => {
+    const request = ++cameraRequestRef.current;
+    streamRef.current?.getTracks().forEach(t => t.stop());
+    streamRef.current = null;
+    setCameraStatus('starting');
+
+    try {
+      const stream = await openCamera(settings);
+      if (request !== cameraRequestRef.current) {
+        // A newer request (e.g. another device picked) superseded this one
+        stream.getTracks().forEach(t => t.stop());
+        return;
+      }
+      streamRef.current = stream;
+      stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+        if (streamRef.current === stream) setCameraStatus('ended');
+      });
+      if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          videoRef.current.play();
+      }
+      setStreamInfo(describeStream(stream));
+      setCameraStatus('live');
+    } catch (err) {
+      if (request !== cameraRequestRef.current) return;
+      console.error("Camera Init Error:", err);
+      setCameraStatus(classifyCameraError(err));
+    }
+    // Device labels only become available once permission has been granted
+    listCameras().then(setCameraDevices).catch(() => {});
+  };
+
+  const updateCameraSettings = (settings: CameraSettings) => {
+    const needsRestart = settings.deviceId !== cameraSettings.deviceId ||
+      settings.width !== cameraSettings.width ||
+      settings.height !== cameraSettings.height ||
+      settings.frameRate !== cameraSettings.frameRate;
+    setCameraSettings(settings);
+    cameraSettingsRef.current = settings;
+    saveSetting(CAMERA_STORAGE_KEY, settings);
+    if (needsRestart) startCamera(settings);
+  };
+
   // --- Initialization: MediaPipe & Camera ---
   useEffect(() => {
     const initMediaPipe = async () => {
@@ -435,33 +977,105 @@ const App: React.FC = () => {
 
       try {
         console.log("Initializing MediaPipe...");
-        const { FilesetResolver, GestureRecognizer } = await import("https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.8/+esm");
-
-        const vision = await FilesetResolver.forVisionTasks(
-          "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.8/wasm"
-        );
-        
-        gestureRecognizerRef.current = await GestureRecognizer.createFromOptions(vision, {
-          baseOptions: {
-            modelAssetPath: "https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task",
-            delegate: "GPU"
-          },
-          runningMode: "VIDEO",
-          numHands: 1
-        });
-        console.log("Gesture Recognizer loaded");
-
-        const stream = await navigator.mediaDevices.getUserMedia({ video: { width: 640, height: 480, frameRate: { ideal: 30 } } });
-        if (videoRef.current) {
-            videoRef.current.srcObject = stream;
-            videoRef.current.play();
+        const config = resolveRecognizerConfig(dualHandsRef.current ? 2 : 1);
+
+        // Prefer recognizing off the main thread; fall back when workers/OffscreenCanvas are missing or fail
+        if (supportsWorkerRecognition()) {
+          try {
+            workerRecognizerRef.current = await createWorkerRecognizer(() => videoRef.current, config);
+            console.log("Gesture Recognizer loaded (worker)");
+          } catch (err) {
+            console.warn("Gesture Worker unavailable, recognizing in-thread:", err);
+          }
+        }
+        if (!workerRecognizerRef.current) {
+          gestureRecognizerRef.current = await createGestureRecognizer(config);
+          console.log("Gesture Recognizer loaded");
         }
+        setGestureStatus({ state: 'ready' });
       } catch (err) {
-        console.error("MediaPipe/Camera Init Error:", err);
+        console.error("MediaPipe Init Error:", err);
+        setGestureStatus({ state: 'unavailable', detail: 'GESTURE MODEL FAILED TO LOAD' });
       }
     };
 
+    // The camera starts alongside the model so the preview is up while the model loads
+    startCamera(cameraSettingsRef.current);
     initMediaPipe();
+
+    const handleDeviceChange = () => {
+      listCameras().then(setCameraDevices).catch(() => {});
+    };
+    navigator.mediaDevices?.addEventListener('devicechange', handleDeviceChange);
+
+    return () => {
+      navigator.mediaDevices?.removeEventListener('devicechange', handleDeviceChange);
+      streamRef.current?.getTracks().forEach(t => t.stop());
+      workerRecognizerRef.current?.dispose();
+      workerRecognizerRef.current = null;
+    };
+  }, []);
+
+  // --- Initialization: Input Sources ---
+  useEffect(() => {
+    const liveRecognize = recognizeFromVideo(() => videoRef.current, () => gestureRecognizerRef.current);
+
+    // Order sets aim priority: a tracked hand beats the gamepad stick, which beats the mouse
+    const manager = createInputManager([
+      createGestureSource({
+        recognize: (now) => {
+          if (playbackRef.current) return playbackRef.current(now);
+          if (workerRecognizerRef.current) return workerRecognizerRef.current.recognize(now);
+          return liveRecognize(now);
+        },
+        getBindings: () => gestureBindingsRef.current,
+        triggers: ACTION_TRIGGERS,
+        classify: createLandmarkClassifier(),
+        onResults: (now, results) => {
+          const pointer = results.landmarks?.[0]?.[8];
+          rawAimRef.current = pointer ? toRawAim(pointer, cameraSettingsRef.current.mirror) : null;
+          if (!playbackRef.current) recorderRef.current.capture(now, results);
+        },
+        onClassified: (now, results) => {
+          trackerFrameRef.current = { time: now, results };
+        },
+        mapAim: (raw, side) => calibratedAimRef.current[side ?? 'primary'](raw),
+        isDualHand: () => dualHandsRef.current,
+        isMirrored: () => cameraSettingsRef.current.mirror
+      }),
+      createGamepadSource(() => targetCursorPositionRef.current),
+      createMouseKeyboardSource()
+    ], enabledInputs);
+    inputManagerRef.current = manager;
+    setEnabledInputs(manager.sources().filter(src => manager.isEnabled(src.id)).map(src => src.id));
+
+    return () => {
+      manager.dispose();
+      inputManagerRef.current = null;
+    };
+  }, []);
+
+  // --- Initialization: Replay from URL (?replay=path/to/session.json) ---
+  useEffect(() => {
+    const replayUrl = new URLSearchParams(window.location.search).get('replay');
+    if (!replayUrl) return;
+    fetch(replayUrl)
+      .then(res => res.json())
+      .then(data => {
+        playbackRef.current = createPlaybackRecognize(parseRecording(data));
+        setReplayName(replayUrl.split('/').pop() || replayUrl);
+      })
+      .catch(e => console.error("Replay Load Error:", e));
+  }, []);
+
+  // --- Initialization: Wave Script from URL (?waves=path/to/waves.json) ---
+  // Applies from the next wave; a script that fails validation logs every problem and is ignored
+  useEffect(() => {
+    const wavesUrl = new URLSearchParams(window.location.search).get('waves');
+    if (!wavesUrl) return;
+    loadWaveScript(wavesUrl)
+      .then(script => engineRef.current.setWaveScript(script))
+      .catch(e => console.error("Wave Script Load Error:", e));
   }, []);
 
   // --- Leaderboard Listener ---
@@ -479,372 +1093,113 @@ const App: React.FC = () => {
     return () => unsubscribe();
   }, []);
 
-  // --- Game Logic: 3D Setup & Loop ---
+  // --- Game Logic: Render & Simulation Loop ---
   useEffect(() => {
     if (!mountRef.current) return;
-
-    // 1. Setup Three.js
-    const scene = new THREE.Scene();
-    scene.background = new THREE.Color(0x000000); 
-    scene.fog = new THREE.FogExp2(0x000000, 0.015);
-    sceneRef.current = scene;
-
-    const camera = new THREE.PerspectiveCamera(75, window.innerWidth / window.innerHeight, 0.1, 1000);
-    camera.position.set(0, PLAYER_HEIGHT, 0);
-    cameraRef.current = camera;
-
-    const renderer = new THREE.WebGLRenderer({ antialias: true, powerPreference: "high-performance" });
-    renderer.setSize(window.innerWidth, window.innerHeight);
-    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 1.5)); // Reduced pixel ratio for performance
-    mountRef.current.appendChild(renderer.domElement);
-    rendererRef.current = renderer;
-
-    // Initialize Cached Materials & Geometries
-    sharedMaterialsRef.current = {
-      particle: new THREE.MeshBasicMaterial({ color: 0xffaa00, transparent: true, opacity: 1.0 }),
-      enemy: new THREE.MeshStandardMaterial({ 
-        color: 0x222222, 
-        emissive: 0xff0000, 
-        emissiveIntensity: 0.8,
-        roughness: 0.2,
-        metalness: 0.8
-      }),
-      enemyRing: new THREE.MeshBasicMaterial({ color: 0xff3300 }),
-      shockwave: new THREE.MeshBasicMaterial({ 
-          color: 0x88ffff, 
-          transparent: true, 
-          opacity: 0.9,
-          blending: THREE.AdditiveBlending,
-          side: THREE.DoubleSide
-      })
-    };
-    
-    // BIGGER ENEMIES UPDATE: Increased dimensions
-    sharedGeometriesRef.current = {
-        particle: new THREE.TetrahedronGeometry(0.15),
-        enemy: new THREE.SphereGeometry(1.2, 16, 16), // Radius increased from 0.3 to 1.2
-        enemyRing: new THREE.TorusGeometry(1.4, 0.05, 8, 16), // Scaled up ring
-        hitbox: new THREE.SphereGeometry(2.0, 8, 8), // Larger hitbox
-        omniSphere: new THREE.SphereGeometry(1, 32, 32) // For 360 shockwave
-    };
-    // Orient ring correctly
-    sharedGeometriesRef.current.enemyRing.rotateX(Math.PI / 2);
-
-    // Environment
-    const starGeo = new THREE.BufferGeometry();
-    const starCount = 1000;
-    const starPos = new Float32Array(starCount * 3);
-    for(let i=0; i<starCount*3; i++) {
-        starPos[i] = (Math.random() - 0.5) * 200;
-    }
-    starGeo.setAttribute('position', new THREE.BufferAttribute(starPos, 3));
-    const starMat = new THREE.PointsMaterial({ color: 0xffffff, size: 0.3, transparent: true, opacity: 0.8 });
-    const stars = new THREE.Points(starGeo, starMat);
-    scene.add(stars);
-    starsRef.current = stars;
-
-    const ambientLight = new THREE.AmbientLight(0x222222);
-    scene.add(ambientLight);
-    const hemiLight = new THREE.HemisphereLight(0x00ffff, 0xff0000, 0.2);
-    scene.add(hemiLight);
-
-    const gridHelper = new THREE.GridHelper(200, 100, 0x00ffff, 0x001133);
-    (gridHelper.material as THREE.Material).transparent = true;
-    (gridHelper.material as THREE.Material).opacity = 0.2;
-    scene.add(gridHelper);
-    gridHelperRef.current = gridHelper;
-
-    const muzzleLight = new THREE.PointLight(0x00ffff, 0, 10);
-    camera.add(muzzleLight);
-    muzzleLight.position.set(0.3, -0.3, -1);
-    muzzleLightRef.current = muzzleLight;
-
-    scene.add(camera);
-
-    // Input Listeners
-    const handleKeyDown = (e: KeyboardEvent) => {
-      switch(e.code) {
-        case 'Space': 
-          setHandInput(prev => ({ ...prev, gesture: 'Open_Palm' }));
-          setTimeout(() => triggerUnibeam(), 0);
-          break;
-      }
-    };
-
-    const handleMouseMove = (e: MouseEvent) => {
-        const x = e.clientX / window.innerWidth;
-        const y = e.clientY / window.innerHeight;
-        targetCursorPositionRef.current = { x, y };
-        setHandInput(prev => ({ ...prev, x, y, detected: false }));
-    };
-
-    const handleMouseDown = () => {
-       fireRepulsor();
-    };
-
-    document.addEventListener('keydown', handleKeyDown);
-    document.addEventListener('mousemove', handleMouseMove);
-    document.addEventListener('mousedown', handleMouseDown);
-
-    // --- Combat Functions ---
-
-    const addShake = (intensity: number) => {
-        shakeIntensityRef.current = Math.min(shakeIntensityRef.current + intensity, 2.0);
-    };
-
-    const spawnDamageText = (pos: THREE.Vector3, amount: number, isCrit: boolean = false) => {
-        const color = isCrit ? '#00ffff' : '#ffffff';
-        const map = createTextTexture(amount.toString(), color);
-        const material = new THREE.SpriteMaterial({ map: map, transparent: true, depthTest: false });
-        const sprite = new THREE.Sprite(material);
-        
-        sprite.position.copy(pos);
-        sprite.position.y += 1.0; // Higher offset for bigger enemies
-        sprite.scale.set(1.5, 1.5, 1.5);
-        
-        scene.add(sprite);
-        damageTextsRef.current.push({ sprite, velocity: new THREE.Vector3(0, 1.5, 0), life: 1.0 });
-    };
-
-    const spawnExplosion = (pos: THREE.Vector3) => {
-      const count = 8; 
-      for (let i = 0; i < count; i++) {
-        // Reusing Material and Geometry
-        const mesh = new THREE.Mesh(
-            sharedGeometriesRef.current!.particle, 
-            sharedMaterialsRef.current!.particle.clone() // Clone material to handle independent fade opacity
-        );
-        mesh.position.copy(pos);
-        mesh.position.x += (Math.random() - 0.5) * 1.0; // Bigger explosion spread
-        
-        const velocity = new THREE.Vector3(
-          (Math.random() - 0.5) * 2,
-          (Math.random() - 0.5) * 2,
-          (Math.random() - 0.5) * 2
-        );
-        scene.add(mesh);
-        particlesRef.current.push({ mesh, velocity, life: 0.8 });
-      }
-      const light = new THREE.PointLight(0xffaa00, 2, 10);
-      light.position.copy(pos);
-      scene.add(light);
-      setTimeout(() => scene.remove(light), 100);
-    };
-
-    const spawnShockwave = (origin: THREE.Vector3, direction: THREE.Vector3 | null) => {
-         // If direction is null, it is an OMNI (360) shockwave (Sphere)
-         // Otherwise it is a directional ring
-         let geometry = sharedGeometriesRef.current!.enemyRing;
-         if (!direction) geometry = sharedGeometriesRef.current!.omniSphere;
-
-         const mesh = new THREE.Mesh(
-             geometry,
-             sharedMaterialsRef.current!.shockwave.clone()
-         );
-         
-         mesh.position.copy(origin);
-         if (direction) {
-            mesh.scale.set(2,2,2); 
-            mesh.lookAt(origin.clone().add(direction));
-         } else {
-            // Omni shockwave starts small
-            mesh.scale.set(0.1, 0.1, 0.1);
-         }
-         
-         const light = new THREE.PointLight(0x0088ff, 4, 15);
-         mesh.add(light);
-
-         scene.add(mesh);
-         shockwavesRef.current.push({ mesh, light, life: 0, direction });
+    const engine = engineRef.current;
+    const view = createGameRenderer(mountRef.current);
+    viewRef.current = view;
+    engine.setAspect(window.innerWidth / window.innerHeight);
+
+    // Actions polled on a render frame are handed to the next simulation tick, once
+    let pendingActions: InputAction[] = [];
+    let pendingHandActions: HandAction[] = [];
+    let strafe: Strafe = NO_STRAFE; // Held movement, sampled by every tick until the next poll
+    let held: HeldAction[] = []; // Likewise for held actions
+    let frameEvents: GameEvent[] = [];
+    // Only hands tracked right now, in two-handed mode: a lost hand's last cursor (or the resting
+    // defaults) must not aim at anything
+    const trackedCursors = (): EngineInput['hands'] => {
+      if (!dualHandsRef.current) return {};
+      const hands: EngineInput['hands'] = {};
+      trackedHandsRef.current.forEach(({ side }) => { hands[side] = handCursorsRef.current[side]; });
+      return hands;
     };
+    const stepper = createFixedStepper(dt => {
+      frameEvents.push(...engine.step(dt, {
+        aim: cursorPositionRef.current,
+        hands: trackedCursors(),
+        actions: pendingActions,
+        handActions: pendingHandActions,
+        strafe,
+        held
+      }));
+      pendingActions = [];
+      pendingHandActions = [];
+    });
 
-    const generateLightning = (start: THREE.Vector3, end: THREE.Vector3) => {
-        const points = [];
-        points.push(start);
-        const segments = 10;
-        for (let i = 1; i < segments; i++) {
-            const lerpPos = start.clone().lerp(end, i / segments);
-            lerpPos.x += (Math.random() - 0.5) * 2.0;
-            lerpPos.y += (Math.random() - 0.5) * 2.0;
-            lerpPos.z += (Math.random() - 0.5) * 2.0;
-            points.push(lerpPos);
+    // Audio and HUD feedback; visual effects are the renderer's job
+    const handleEvent = (event: GameEvent) => {
+        if (event.type === 'shot') {
+            playSound('shoot');
+            setFiringHand(event.hand);
+            setTimeout(() => setFiringHand(current => current === event.hand ? null : current), 100);
+            if (event.hits > 0) {
+                setHitMarker(true);
+                setTimeout(() => setHitMarker(false), 100);
+                playSound('hit');
+            }
+        } else if (event.type === 'unibeam_charging') {
+            playSound('beam_charge');
+        } else if (event.type === 'unibeam' || event.type === 'overload') {
+            playSound('beam');
+        } else if (event.type === 'shield') {
+            playSound('shield');
+        } else if (event.type === 'enemy_charging') {
+            playSound('charge');
+        } else if (event.type === 'boss_spawned' || event.type === 'boss_phase') {
+            playSound('alarm');
+        } else if (event.type === 'boss_defeated') {
+            playSound('beam');
+        } else if (event.type === 'pickup_collected') {
+            playSound('pickup');
+        } else if (event.type === 'combo_up') {
+            playSound('combo');
+        } else if (event.type === 'score_bonus') {
+            const text = `${BONUS_LABELS[event.bonus]} +${event.points}`;
+            setBonus(text);
+            setTimeout(() => setBonus(current => current === text ? null : current), 1500);
+        } else if (event.type === 'player_hit') {
+            if (event.health <= LOW_HEALTH && event.health > 0) playSound('low_hp');
+        } else if (event.type === 'wave') {
+            bankCredits(engine.world.score);
+        } else if (event.type === 'gameover') {
+            bankCredits(event.score);
+            document.exitPointerLock();
+            submitScore(event.score);
         }
-        points.push(end);
-        const geo = new THREE.BufferGeometry().setFromPoints(points);
-        const mat = new THREE.LineBasicMaterial({ color: 0x00aaff });
-        const line = new THREE.Line(geo, mat);
-        scene.add(line);
-        electricalArcsRef.current.push({ mesh: line, life: 0.2 });
     };
 
-    const triggerUnibeam = () => {
-      setGameState(prev => {
-          if (prev.beamCharges <= 0) return prev; 
-
-          playSound('beam');
-          addShake(2.0); // Massive Shake
-
-          const raycaster = new THREE.Raycaster();
-          const mouseVec = new THREE.Vector2(
-            (cursorPositionRef.current.x * 2) - 1,
-            -(cursorPositionRef.current.y * 2) + 1
-          );
-          raycaster.setFromCamera(mouseVec, camera);
-          const rayDir = raycaster.ray.direction.normalize();
-          const rayOrigin = raycaster.ray.origin;
-          const endPoint = rayOrigin.clone().add(rayDir.multiplyScalar(100));
-
-          const distance = 100;
-          const startPoint = new THREE.Vector3(0.3, -0.3, -0.5).applyMatrix4(camera.matrixWorld);
-          
-          const cylGeo = new THREE.CylinderGeometry(0.8, 0.8, distance, 16, 1, true);
-          cylGeo.rotateX(-Math.PI / 2);
-          cylGeo.translate(0, 0, distance/2);
-          const mat = new THREE.MeshBasicMaterial({ 
-              color: 0x2288ff, 
-              transparent: true, 
-              opacity: 0.8,
-              blending: THREE.AdditiveBlending,
-              side: THREE.DoubleSide
-          });
-          const beamMesh = new THREE.Mesh(cylGeo, mat);
-          beamMesh.position.copy(startPoint);
-          beamMesh.lookAt(endPoint);
-          scene.add(beamMesh);
-          
-          for(let k=0; k<8; k++) generateLightning(startPoint, endPoint);
-
-          // 360 DEGREE SHOCKWAVE
-          spawnShockwave(startPoint, null);
-          
-          activeLinesRef.current.push({ mesh: beamMesh, timestamp: Date.now() + 500 }); 
-
-          // OMNI-DIRECTIONAL DAMAGE LOGIC
-          const enemiesToRemove: number[] = [];
-          enemiesRef.current.forEach((enemy, idx) => {
-              // Instead of calculating distance to a beam ray, calculate distance to player camera
-              // This ensures the 360 visual shockwave matches the hitbox.
-              const dist = enemy.mesh.position.distanceTo(camera.position);
-              
-              // 80 units is essentially the entire visible combat corridor
-              if (dist < 80) {
-                  spawnExplosion(enemy.mesh.position);
-                  spawnDamageText(enemy.mesh.position, 9999, true);
-                  enemiesToRemove.push(idx);
-              }
-          });
-
-          enemiesToRemove.sort((a, b) => b - a).forEach(idx => {
-              const enemy = enemiesRef.current[idx];
-              scene.remove(enemy.mesh);
-              scene.remove(enemy.hitbox);
-              enemiesRef.current.splice(idx, 1);
-          });
-
-          return { ...prev, beamCharges: prev.beamCharges - 1, score: prev.score + (enemiesToRemove.length * 50) };
-      });
-    };
-
-    const fireRepulsor = () => {
-        const now = Date.now();
-        if (now - lastShotTimeRef.current < REPULSOR_COOLDOWN_MS) return;
-        lastShotTimeRef.current = now;
-        playSound('shoot');
-        addShake(0.08);
-        setIsFiring(true);
-        setTimeout(() => setIsFiring(false), 100);
-
-        if (muzzleLightRef.current) {
-            muzzleLightRef.current.color.setHex(0x00ffff);
-            muzzleLightRef.current.intensity = 2;
-            setTimeout(() => { if (muzzleLightRef.current) muzzleLightRef.current.intensity = 0; }, 50);
-        }
-
-        const raycaster = new THREE.Raycaster();
-        const mouseVec = new THREE.Vector2(
-            (cursorPositionRef.current.x * 2) - 1,
-            -(cursorPositionRef.current.y * 2) + 1
-        );
-        raycaster.setFromCamera(mouseVec, camera);
-        
-        const enemyHitboxes = enemiesRef.current.map(e => e.hitbox);
-        const intersects = raycaster.intersectObjects(enemyHitboxes);
-
-        let targetPoint = raycaster.ray.origin.clone().add(raycaster.ray.direction.multiplyScalar(100));
-        let hitIndex = -1;
-
-        if (intersects.length > 0) {
-             targetPoint = intersects[0].point;
-             hitIndex = enemiesRef.current.findIndex(e => e.hitbox === intersects[0].object);
-        }
-
-        const startPoint = new THREE.Vector3(0.25, -0.3, -0.4).applyMatrix4(camera.matrixWorld);
-        const distance = startPoint.distanceTo(targetPoint);
-        
-        const cylGeo = new THREE.CylinderGeometry(0.03, 0.03, 1, 6);
-        cylGeo.rotateX(-Math.PI / 2); 
-        const mat = new THREE.MeshBasicMaterial({ color: 0xccffff });
-        const beam = new THREE.Mesh(cylGeo, mat);
-        
-        beam.position.copy(startPoint).lerp(targetPoint, 0.5);
-        beam.lookAt(targetPoint);
-        beam.scale.z = distance;
-        
-        scene.add(beam);
-        activeLinesRef.current.push({ mesh: beam, timestamp: now });
-
-        const glowGeo = new THREE.CylinderGeometry(0.08, 0.08, 1, 6);
-        glowGeo.rotateX(-Math.PI / 2);
-        const glowMat = new THREE.MeshBasicMaterial({ 
-            color: 0x00ffff, 
-            transparent: true, 
-            opacity: 0.3, 
-            blending: THREE.AdditiveBlending 
-        });
-        const glowBeam = new THREE.Mesh(glowGeo, glowMat);
-        glowBeam.position.copy(beam.position);
-        glowBeam.quaternion.copy(beam.quaternion);
-        glowBeam.scale.z = distance;
-        scene.add(glowBeam);
-        activeLinesRef.current.push({ mesh: glowBeam, timestamp: now });
-
-        if (hitIndex !== -1) {
-            setHitMarker(true);
-            setTimeout(() => setHitMarker(false), 100);
-            
-            const enemy = enemiesRef.current[hitIndex];
-            const dmg = 100; // ONE SHOT KILL UPDATE
-            enemy.hp -= dmg;
-            
-            spawnDamageText(enemy.mesh.position, dmg);
-            playSound('hit');
-
-            if (enemy.hp <= 0) {
-                destroyEnemy(hitIndex, 10);
-            } else {
-                (enemy.mesh.material as THREE.MeshStandardMaterial).emissive.setHex(0xffffff);
-                setTimeout(() => {
-                     if(enemy.mesh) (enemy.mesh.material as THREE.MeshStandardMaterial).emissive.setHex(0xff0000);
-                }, 50);
+    const syncHud = () => {
+        const snapshot = engine.snapshot();
+        const next = toGameState(snapshot);
+        setGameState(prev => (Object.keys(prev) as (keyof GameState)[]).every(k => prev[k] === next[k]) ? prev : next);
+        if (snapshot.status === 'playing') {
+            setObjective(objectiveText(snapshot.objective));
+            setShieldStatus(snapshot.shield);
+            const nextBoss = snapshot.boss;
+            setBoss(prev => prev && nextBoss && (Object.keys(prev) as (keyof BossSnapshot)[]).every(k => prev[k] === nextBoss[k]) ? prev : nextBoss);
+            // Decay to the percent so the bar does not re-render the HUD on every sub-pixel change
+            const nextCombo = { ...snapshot.combo, decay: Math.round(snapshot.combo.decay * 100) / 100 };
+            setCombo(prev => (Object.keys(prev) as (keyof ComboSnapshot)[]).every(k => prev[k] === nextCombo[k]) ? prev : nextCombo);
+            // Countdowns to the tenth of a second, which is all the HUD shows
+            const nextBuffs = snapshot.buffs.map(b => ({ ...b, secondsLeft: Math.ceil(b.secondsLeft * 10) / 10, remaining: Math.ceil(b.remaining * 100) / 100 }));
+            setBuffs(prev => prev.length === nextBuffs.length && prev.every((b, i) => b.kind === nextBuffs[i].kind && b.secondsLeft === nextBuffs[i].secondsLeft) ? prev : nextBuffs);
+            if (pauseReasonRef.current) {
+                pauseReasonRef.current = null;
+                setPauseReason(null);
             }
         }
     };
 
-    const destroyEnemy = (index: number, points: number) => {
-        const enemy = enemiesRef.current[index];
-        spawnExplosion(enemy.mesh.position);
-        scene.remove(enemy.mesh);
-        scene.remove(enemy.hitbox);
-        enemiesRef.current.splice(index, 1);
-        
-        setGameState(prev => ({ 
-            ...prev, 
-            score: prev.score + points
-        }));
-    };
-
     // --- Animation Loop ---
     let lastTime = performance.now();
+    let handLossFrames = 0;
+    const cursorFilters: Record<FiringHand, PointFilter> = {
+      primary: createPointFilter(() => cursorFilterRef.current),
+      left: createPointFilter(() => cursorFilterRef.current),
+      right: createPointFilter(() => cursorFilterRef.current)
+    };
 
     const animate = () => {
       frameIdRef.current = requestAnimationFrame(animate);
@@ -852,297 +1207,100 @@ const App: React.FC = () => {
       const delta = Math.min((time - lastTime) / 1000, 0.1);
       lastTime = time;
       const now = Date.now();
+      const playing = engine.world.status === 'playing';
+      const inRun = playing || engine.world.status === 'paused';
 
-      // INPUT SMOOTHING (LERP)
-      cursorPositionRef.current.x = THREE.MathUtils.lerp(cursorPositionRef.current.x, targetCursorPositionRef.current.x, 0.15);
-      cursorPositionRef.current.y = THREE.MathUtils.lerp(cursorPositionRef.current.y, targetCursorPositionRef.current.y, 0.15);
+      // INPUT SMOOTHING (ONE EURO)
+      if (aimSourceRef.current === 'mouse' && !cursorFilterRef.current.filterMouse) {
+          cursorFilters.primary.reset();
+          cursorPositionRef.current = { ...targetCursorPositionRef.current };
+      } else {
+          cursorPositionRef.current = cursorFilters.primary.filter(targetCursorPositionRef.current, time / 1000);
+      }
+      trackedHandsRef.current.forEach(({ side }) => {
+          handCursorsRef.current[side] = cursorFilters[side].filter(handTargetsRef.current[side], time / 1000);
+      });
 
-      if (gameState.status === 'playing') {
+      if (playing) {
           setHandInput(prev => ({
               ...prev,
               x: cursorPositionRef.current.x,
-              y: cursorPositionRef.current.y
+              y: cursorPositionRef.current.y,
+              hands: trackedHandsRef.current.length > 0
+                  ? trackedHandsRef.current.map(h => ({ ...h, ...handCursorsRef.current[h.side] }))
+                  : undefined
           }));
-
-          // AUTO-FORWARD MOVEMENT
-          camera.position.z -= FLIGHT_SPEED * delta;
-
-          if (gridHelperRef.current) {
-            gridHelperRef.current.position.z = camera.position.z;
-            gridHelperRef.current.position.x = camera.position.x;
-          }
-          if (starsRef.current) {
-             starsRef.current.position.z = camera.position.z;
-          }
-
-          // PARALLAX AIMING
-          const targetRotY = (0.5 - cursorPositionRef.current.x) * 0.6; 
-          const targetRotX = (0.5 - cursorPositionRef.current.y) * 0.4;
-          
-          camera.rotation.y = THREE.MathUtils.lerp(camera.rotation.y, targetRotY, delta * 5);
-          camera.rotation.x = THREE.MathUtils.lerp(camera.rotation.x, targetRotX, delta * 5);
-
-          // UNIBEAM REGENERATION
-          if (gameState.beamCharges < MAX_BEAM_CHARGES) {
-              beamRegenTimerRef.current += delta * 1000;
-              if (beamRegenTimerRef.current >= BEAM_REGEN_MS) {
-                   setGameState(prev => ({
-                       ...prev,
-                       beamCharges: Math.min(prev.beamCharges + 1, MAX_BEAM_CHARGES)
-                   }));
-                   beamRegenTimerRef.current = 0;
-              }
-          } else {
-              beamRegenTimerRef.current = 0;
-          }
-      }
-
-      // Camera Shake
-      if (shakeIntensityRef.current > 0) {
-          const shakeX = (Math.random() - 0.5) * shakeIntensityRef.current;
-          const shakeY = (Math.random() - 0.5) * shakeIntensityRef.current;
-          camera.position.x += shakeX;
-          camera.position.y = PLAYER_HEIGHT + shakeY;
-          shakeIntensityRef.current = Math.max(0, shakeIntensityRef.current - (delta * 5));
-      } else {
-          camera.position.y = PLAYER_HEIGHT;
-          camera.position.x = 0;
-      }
-
-      // Update Beams
-      activeLinesRef.current = activeLinesRef.current.filter(l => {
-          if (now - l.timestamp > 100) { 
-              scene.remove(l.mesh);
-              l.mesh.geometry.dispose();
-              (l.mesh.material as THREE.Material).dispose();
-              return false;
-          }
-          return true;
-      });
-
-      // Update Electrical Arcs
-      for (let i = electricalArcsRef.current.length - 1; i >= 0; i--) {
-          const arc = electricalArcsRef.current[i];
-          arc.life -= delta;
-          if (arc.life <= 0) {
-              scene.remove(arc.mesh);
-              electricalArcsRef.current.splice(i, 1);
-          }
       }
 
-      // Update Shockwaves
-      for (let i = shockwavesRef.current.length - 1; i >= 0; i--) {
-          const sw = shockwavesRef.current[i];
-          sw.life += delta * 4.0; 
-          const scale = 1 + (sw.life * 30.0); 
-          
-          if (sw.direction) {
-             // Directional Ring
-             sw.mesh.scale.set(scale, scale, 1);
-             sw.mesh.position.add(sw.direction.clone().multiplyScalar(delta * 60));
-          } else {
-             // Omni Sphere (360)
-             sw.mesh.scale.set(scale, scale, scale);
-             // Omni shockwaves don't translate fast, they expand fast
+      // Input Polling
+      if (inputManagerRef.current) {
+          const input = inputManagerRef.current.poll(now);
+          if (input.aimSource) {
+              targetCursorPositionRef.current = { x: input.x, y: input.y };
+              aimSourceRef.current = input.aimSource;
           }
-          
-          const opacity = Math.max(0, 0.9 - (sw.life * 0.4));
-          (sw.mesh.material as THREE.Material).opacity = opacity;
-          if (sw.light) sw.light.intensity = opacity * 4;
-
-          if (sw.life > 2.5) {
-              scene.remove(sw.mesh);
-              shockwavesRef.current.splice(i, 1);
+          if (input.changed) setHandInput(prev => ({ ...prev, detected: input.detected, gesture: input.gesture }));
+          input.hands.forEach(h => { handTargetsRef.current[h.side] = { x: h.x, y: h.y }; });
+          trackedHandsRef.current = input.hands;
+
+          if (input.actions.includes('pause') || input.handActions.some(a => a.action === 'pause')) togglePause();
+          if (playing) {
+              pendingActions.push(...input.actions);
+              pendingHandActions.push(...input.handActions);
           }
-      }
-
-      // Update Particles
-      for (let i = particlesRef.current.length - 1; i >= 0; i--) {
-        const p = particlesRef.current[i];
-        p.life -= delta * 2.0;
-        p.mesh.position.add(p.velocity.clone().multiplyScalar(delta * 8));
-        p.mesh.rotation.x += delta * 5;
-        (p.mesh.material as THREE.Material).opacity = p.life;
-        if (p.life <= 0) {
-          scene.remove(p.mesh);
-          particlesRef.current.splice(i, 1);
-        }
-      }
-
-      // Update Damage Texts
-      for (let i = damageTextsRef.current.length - 1; i >= 0; i--) {
-          const dt = damageTextsRef.current[i];
-          dt.life -= delta * 1.0;
-          dt.sprite.position.add(dt.velocity.clone().multiplyScalar(delta));
-          (dt.sprite.material as THREE.SpriteMaterial).opacity = dt.life;
-          if (dt.life <= 0) {
-              scene.remove(dt.sprite);
-              damageTextsRef.current.splice(i, 1);
+          held = input.held;
+          // Keys and the right stick strafe directly; a hand strafes by reaching toward an edge
+          strafe = aimSourceRef.current === 'gesture'
+              ? combineStrafe(input.strafe, edgeStrafe(targetCursorPositionRef.current))
+              : input.strafe;
+
+          // Auto-pause when the aiming hand leaves the frame; resume once it is back
+          const handLost = aimSourceRef.current === 'gesture' && inputManagerRef.current.isEnabled('gesture') && !input.detected;
+          handLossFrames = handLost ? handLossFrames + 1 : 0;
+          if (handLossFrames >= HAND_LOSS_PAUSE_FRAMES && (playing || pauseReasonRef.current === 'hand')) {
+              pauseGame('hand');
+          } else if (!handLost && pauseReasonRef.current === 'hand') {
+              engine.resume();
           }
       }
 
-      // MediaPipe Polling
-      if (videoRef.current && gestureRecognizerRef.current && videoRef.current.readyState === 4) {
-          if (now - lastGestureTimeRef.current > 40) { 
-            const results = gestureRecognizerRef.current.recognizeForVideo(videoRef.current, now);
-            lastGestureTimeRef.current = now;
-            
-            let gesture = 'None';
-            let detected = false;
-            let x = targetCursorPositionRef.current.x; 
-            let y = targetCursorPositionRef.current.y;
-
-            if (results.landmarks && results.landmarks.length > 0) {
-                detected = true;
-                const hand = results.landmarks[0];
-                const pointer = hand[8]; 
-                x = 1.0 - pointer.x; 
-                y = pointer.y;
-                if (results.gestures.length > 0) gesture = results.gestures[0][0].categoryName;
-                
-                targetCursorPositionRef.current = { x, y };
-            }
-
-            setHandInput(prev => ({ ...prev, detected, gesture })); 
+      // Simulation (a paused run still steps, to run its resume countdown)
+      frameEvents = [];
+      if (inRun) stepper.advance(delta);
+      frameEvents.forEach(handleEvent);
+      syncHud();
 
-            if (detected && gameState.status === 'playing') {
-                if (gesture === "Closed_Fist") fireRepulsor();
-                else if (gesture === "Open_Palm") triggerUnibeam();
-            }
-          }
-      }
-
-      if (gameState.status !== 'playing') return;
-
-      // Game Timer
-      const elapsedWave = (now - waveStartTimeRef.current) / 1000;
-      const remaining = Math.max(0, WAVE_DURATION_SEC - elapsedWave);
-      setTimer(remaining);
-
-      if (remaining <= 0) {
-         setGameState(prev => ({ ...prev, wave: prev.wave + 1 }));
-         waveStartTimeRef.current = now;
-      }
-
-      // Enemy Spawning - REDUCED RATE
-      const targetEnemyCount = Math.min(15, 2 + (gameState.wave * 2));
-      if (enemiesRef.current.length < targetEnemyCount && Math.random() < 0.015) {
-          const spawnDistance = 60;
-          const spawnZ = camera.position.z - spawnDistance;
-          const spawnX = camera.position.x + (Math.random() - 0.5) * 30; 
-          const spawnY = camera.position.y + (Math.random() * 8) - 2;
-          
-          const mesh = new THREE.Mesh(sharedGeometriesRef.current!.enemy, sharedMaterialsRef.current!.enemy);
-          const ring = new THREE.Mesh(sharedGeometriesRef.current!.enemyRing, sharedMaterialsRef.current!.enemyRing);
-          mesh.add(ring);
-
-          const hitbox = new THREE.Mesh(sharedGeometriesRef.current!.hitbox, new THREE.MeshBasicMaterial({ visible: false }));
-          
-          mesh.position.set(spawnX, spawnY, spawnZ);
-          hitbox.position.copy(mesh.position);
-          
-          scene.add(mesh);
-          scene.add(hitbox);
-
-          enemiesRef.current.push({ 
-              id: Math.random().toString(), 
-              mesh, 
-              hitbox,
-              hp: 100, 
-              maxHp: 100,
-              wobbleOffset: Math.random() * Math.PI * 2,
-              speedOffset: Math.random() * 2,
-              velocity: new THREE.Vector3(0, 0, 0)
-          });
-      }
-
-      // Enemy Logic
-      for (let i = enemiesRef.current.length - 1; i >= 0; i--) {
-          const enemy = enemiesRef.current[i];
-          
-          const approachSpeed = 5.0 + (gameState.wave * 0.3) + enemy.speedOffset;
-          const targetPos = camera.position.clone();
-          targetPos.y = 1.0; 
-          
-          const desiredDir = targetPos.sub(enemy.mesh.position).normalize();
-          const distToPlayer = enemy.mesh.position.distanceTo(camera.position);
-          
-          const steerFactor = distToPlayer < 20 ? 0.5 * delta : 5.0 * delta;
-          
-          const currentDir = enemy.velocity.clone().normalize();
-          if (currentDir.length() === 0) enemy.velocity.copy(desiredDir);
-
-          const newDir = currentDir.lerp(desiredDir, steerFactor).normalize();
-          enemy.velocity.copy(newDir).multiplyScalar(approachSpeed);
-          
-          enemy.mesh.position.add(enemy.velocity.clone().multiplyScalar(delta));
-          enemy.hitbox.position.copy(enemy.mesh.position);
-
-          enemy.mesh.children[0].rotation.z += 5 * delta;
-          enemy.mesh.lookAt(camera.position);
-
-          const pX = camera.position.x;
-          const pZ = camera.position.z;
-          const ePos = enemy.mesh.position;
-          const hitRadius = 1.5; // Collision radius increased for bigger enemies
-          const pWidth = 0.5; 
-          const pHeight = 1.8;
-          const pDepth = 0.5;
-
-          const collisionX = Math.abs(ePos.x - pX) < (pWidth + hitRadius);
-          const collisionZ = Math.abs(ePos.z - pZ) < (pDepth + hitRadius);
-          const collisionY = ePos.y < (pHeight + hitRadius) && ePos.y > -hitRadius;
-
-          if (collisionX && collisionZ && collisionY) {
-              spawnExplosion(camera.position.clone().add(new THREE.Vector3(0,0,-1))); 
-              addShake(1.0);
-              destroyEnemy(i, 0); 
-              
-              setGameState(prev => {
-                  const newHp = prev.health - 20;
-                  if (newHp <= 20 && newHp > 0) playSound('low_hp');
-                  if (newHp <= 0) {
-                      document.exitPointerLock();
-                      submitScore(prev.score);
-                      return { ...prev, health: 0, status: 'gameover' };
-                  }
-                  return { ...prev, health: newHp };
-              });
-          }
-          else if (enemy.mesh.position.z > camera.position.z + 20) {
-              scene.remove(enemy.mesh);
-              scene.remove(enemy.hitbox);
-              enemiesRef.current.splice(i, 1);
-          }
-      }
-      renderer.render(scene, camera);
+      view.frame(engine.world, frameEvents, delta);
     };
 
     frameIdRef.current = requestAnimationFrame(animate);
 
     const handleResize = () => {
-        camera.aspect = window.innerWidth / window.innerHeight;
-        camera.updateProjectionMatrix();
-        renderer.setSize(window.innerWidth, window.innerHeight);
+        view.resize(window.innerWidth, window.innerHeight);
+        engine.setAspect(window.innerWidth / window.innerHeight);
     };
     window.addEventListener('resize', handleResize);
 
+    const handleVisibilityChange = () => {
+        if (document.hidden) pauseGame('hidden');
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
     return () => {
       window.removeEventListener('resize', handleResize);
-      document.removeEventListener('keydown', handleKeyDown);
-      document.removeEventListener('mousemove', handleMouseMove);
-      document.removeEventListener('mousedown', handleMouseDown);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
       cancelAnimationFrame(frameIdRef.current);
-      if (mountRef.current) mountRef.current.removeChild(renderer.domElement);
+      view.dispose();
+      viewRef.current = null;
     };
-  }, [gameState.status, gameState.wave, playSound]); 
+  }, []);
 
   // --- Helper: Submit Score ---
   const submitScore = async (finalScore: number) => {
       if (!dbRef.current || !userIdRef.current || !__app_id) return;
       try {
           await addDoc(collection(dbRef.current, `artifacts/${__app_id}/public/data/stark_protocol_scores`), {
-              nickname: nickname,
+              nickname: nicknameRef.current,
               score: finalScore,
               userId: userIdRef.current,
               timestamp: serverTimestamp()
@@ -1153,6 +1311,130 @@ const App: React.FC = () => {
   };
 
   // --- Handlers ---
+  // Only touch refs and state setters: the game loop keeps the first render's copies
+  const pauseGame = (reason: PauseReason) => {
+    const status = engineRef.current.world.status;
+    if (status !== 'playing' && status !== 'paused') return;
+    engineRef.current.pause();
+    pauseReasonRef.current = reason;
+    setPauseReason(reason);
+  };
+
+  const resumeGame = () => {
+    engineRef.current.resume();
+  };
+
+  const togglePause = () => {
+    const { status, resumeInMs } = engineRef.current.world;
+    if (status === 'playing') pauseGame('manual');
+    else if (status === 'paused' && resumeInMs === null) resumeGame();
+  };
+
+  const toggleRecording = () => {
+    const recorder = recorderRef.current;
+    if (recorder.isRecording()) {
+      downloadRecording(recorder.stop());
+      setIsRecording(false);
+    } else {
+      recorder.start();
+      setIsRecording(true);
+    }
+  };
+
+  const loadReplay = async (file: File) => {
+    try {
+      const recording = parseRecording(JSON.parse(await file.text()));
+      playbackRef.current = createPlaybackRecognize(recording);
+      setReplayName(file.name);
+    } catch (e) {
+      console.error("Replay Load Error:", e);
+    }
+  };
+
+  const ejectReplay = () => {
+    playbackRef.current = null;
+    setReplayName(null);
+  };
+
+  // Credits are banked as waves end and when the run does, so they can be spent mid-run
+  const bankCredits = (score: number) => {
+    const earned = creditsForScore(score) - creditsForScore(bankedScoreRef.current);
+    bankedScoreRef.current = score;
+    if (earned <= 0) return;
+    setRunCredits(current => current + earned);
+    setSuit(current => ({ ...current, credits: current.credits + earned }));
+  };
+
+  // A hand pause would resume under the panel as soon as the hand came back
+  const openArmory = () => {
+    if (pauseReasonRef.current === 'hand') {
+      pauseReasonRef.current = 'manual';
+      setPauseReason('manual');
+    }
+    setEditingArmory(true);
+  };
+
+  const buyArmoryUpgrade = (id: UpgradeId) => {
+    if (!canBuyUpgrade(suit.loadout, id, suit.credits)) return;
+    setSuit({ credits: suit.credits - nextUpgradeCost(suit.loadout, id)!, loadout: buyUpgrade(suit.loadout, id) });
+  };
+
+  const updateGestureBindings = (bindings: GestureBindings) => {
+    setGestureBindings(bindings);
+    saveSetting(GESTURE_BINDINGS_STORAGE_KEY, bindings);
+  };
+
+  // First start with gesture input on and no saved profile goes through calibration
+  const requestStart = (daily: boolean) => {
+    dailyRunRef.current = daily;
+    const needsCalibration = enabledInputs.includes('gesture') && gestureStatus.state === 'ready' &&
+      cameraStatus === 'live' && !hasSetting(CALIBRATION_STORAGE_KEY);
+    if (needsCalibration && !calibrationOfferedRef.current) {
+      calibrationOfferedRef.current = true;
+      startAfterCalibrationRef.current = true;
+      setCalibrating(true);
+      return;
+    }
+    startGame();
+  };
+
+  const openCalibration = () => {
+    startAfterCalibrationRef.current = false;
+    setCalibrating(true);
+  };
+
+  const finishCalibration = (profile: CalibrationProfile | null) => {
+    if (profile) {
+      saveSetting(CALIBRATION_STORAGE_KEY, profile);
+      calibratedAimRef.current = createAimMappers(profile);
+    }
+    setCalibrating(false);
+    if (startAfterCalibrationRef.current) startGame();
+  };
+
+  const updateCursorFilter = (settings: CursorFilterSettings) => {
+    setCursorFilter(settings);
+    saveSetting(CURSOR_FILTER_STORAGE_KEY, settings);
+  };
+
+  const toggleDualHands = () => {
+    const next = !dualHands;
+    setDualHands(next);
+    saveSetting(DUAL_HANDS_STORAGE_KEY, next);
+    gestureRecognizerRef.current?.setOptions({ numHands: next ? 2 : 1 });
+    workerRecognizerRef.current?.setNumHands(next ? 2 : 1);
+    if (!next) trackedHandsRef.current = [];
+  };
+
+  const toggleInput = (id: InputSourceId) => {
+    const manager = inputManagerRef.current;
+    if (!manager) return;
+    manager.setEnabled(id, !manager.isEnabled(id));
+    // A disabled tracker is not a stalled one
+    if (id === 'gesture' && !manager.isEnabled(id)) trackerFrameRef.current = null;
+    setEnabledInputs(manager.sources().filter(src => manager.isEnabled(src.id)).map(src => src.id));
+  };
+
   const startGame = () => {
     if (!audioCtxRef.current) {
         audioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
@@ -1161,66 +1443,133 @@ const App: React.FC = () => {
         audioCtxRef.current.resume();
     }
 
-    setGameState({
-        status: 'playing',
-        health: 100,
-        score: 0,
-        wave: 1,
-        enemies: [],
-        beamCharges: 5 // Start fully charged
-    });
-    waveStartTimeRef.current = Date.now();
-    beamRegenTimerRef.current = 0; 
-    
-    enemiesRef.current.forEach(e => {
-        sceneRef.current?.remove(e.mesh);
-        sceneRef.current?.remove(e.hitbox);
-    });
-    enemiesRef.current = [];
-    particlesRef.current.forEach(p => {
-      sceneRef.current?.remove(p.mesh);
-      // Do not dispose material/geo as they are shared now
-    });
-    particlesRef.current = [];
-    damageTextsRef.current.forEach(t => sceneRef.current?.remove(t.sprite));
-    damageTextsRef.current = [];
-    
-    if (cameraRef.current) {
-        cameraRef.current.rotation.set(0, 0, 0);
-        cameraRef.current.position.set(0, PLAYER_HEIGHT, 0);
-    }
+    const daily = dailyRunRef.current ? dailyChallengeDate() : null;
+    const seed = daily ? dailySeed(daily) : urlSeed() ?? randomSeed();
+    setRun({ seed, daily });
+
+    // Daily runs are flown in the stock suit so their scores compare fairly
+    engineRef.current.setLoadout(daily ? {} : suit.loadout);
+    engineRef.current.start(seed);
+    viewRef.current?.reset(seed);
+    bankedScoreRef.current = 0;
+    setRunCredits(0);
+    pauseReasonRef.current = null;
+    setPauseReason(null);
+    setGameState(toGameState(engineRef.current.snapshot()));
+    setShieldStatus('ready');
+    setBoss(null);
+    setCombo(engineRef.current.snapshot().combo);
+    setBonus(null);
+    setBuffs([]);
   };
 
+  const cameraFault = cameraStatus !== 'live' && cameraStatus !== 'starting';
+
   return (
     <div className="relative w-full h-full bg-black text-white overflow-hidden">
       <div ref={mountRef} className="w-full h-screen cursor-none" />
       <HUD 
         gameState={gameState} 
-        timer={timer} 
-        onStart={startGame} 
+        objective={objective}
+        run={run}
+        onStart={() => requestStart(false)}
+        onStartDaily={() => requestStart(true)}
+        pauseReason={pauseReason}
+        onResume={resumeGame}
+        onCalibrate={openCalibration}
+        onEditBindings={() => setEditingBindings(true)}
+        onEditCamera={() => setEditingCamera(true)}
+        onEditSmoothing={() => setEditingCursorFilter(true)}
+        onOpenArmory={openArmory}
+        suit={suit}
+        runCredits={runCredits}
         hitMarker={hitMarker}
-        isFiring={isFiring}
+        firingHand={firingHand}
         handInput={handInput}
+        bindings={gestureBindings}
+        shieldStatus={shieldStatus}
+        boss={boss}
+        combo={combo}
+        bonus={bonus}
+        buffs={buffs}
+        inputOptions={(inputManagerRef.current?.sources() ?? []).map(src => ({
+          id: src.id,
+          label: src.label,
+          enabled: enabledInputs.includes(src.id)
+        }))}
+        onToggleInput={toggleInput}
+        dualHands={dualHands}
+        onToggleDualHands={toggleDualHands}
+        gestureNotice={replayName ? null :
+          gestureStatus.state === 'unavailable' ? gestureStatus.detail ?? null :
+          cameraFault ? CAMERA_STATUS_INFO[cameraStatus].label : null}
       />
 
+      {editingArmory && (
+        <ArmoryPanel
+          credits={suit.credits}
+          loadout={suit.loadout}
+          notice={gameState.status === 'paused' ? (run?.daily ? 'DAILY CHALLENGE RUNS USE THE STOCK SUIT' : 'UPGRADES INSTALL AT THE START OF THE NEXT WAVE') : null}
+          onBuy={buyArmoryUpgrade}
+          onClose={() => setEditingArmory(false)}
+        />
+      )}
+
+      {editingBindings && (
+        <GestureBindingsPanel
+          bindings={gestureBindings}
+          onChange={updateGestureBindings}
+          onClose={() => setEditingBindings(false)}
+        />
+      )}
+
+      {editingCamera && (
+        <CameraPanel
+          settings={cameraSettings}
+          devices={cameraDevices}
+          status={cameraStatus}
+          streamInfo={streamInfo}
+          onChange={updateCameraSettings}
+          onRetry={() => startCamera(cameraSettings)}
+          onClose={() => setEditingCamera(false)}
+        />
+      )}
+
+      {editingCursorFilter && (
+        <CursorFilterPanel
+          settings={cursorFilter}
+          getTarget={() => ({ ...targetCursorPositionRef.current, source: aimSourceRef.current })}
+          onChange={updateCursorFilter}
+          onClose={() => setEditingCursorFilter(false)}
+        />
+      )}
+
+      {calibrating && (
+        <CalibrationWizard
+          getRawAim={() => rawAimRef.current}
+          onComplete={finishCalibration}
+          onSkip={() => finishCalibration(null)}
+        />
+      )}
+
       {/* Camera Feed & Gesture Guides */}
       <div className="absolute bottom-6 right-6 z-40 flex flex-col items-end gap-2 pointer-events-none">
           <div className="bg-slate-900/80 border border-cyan-500/30 p-3 rounded-md backdrop-blur w-48 pointer-events-auto">
              <h4 className="text-cyan-400 text-[10px] font-bold tracking-widest border-b border-cyan-500/30 pb-1 mb-2">GESTURE COMMANDS</h4>
-             <div className="flex items-center justify-between mb-2">
-                <span className="text-[10px] text-slate-300 font-mono">FIRE</span>
-                <div className="flex items-center gap-2">
-                    <span className="text-[9px] text-cyan-600 uppercase">Closed Fist</span>
-                    <div className="w-2 h-2 bg-red-500 rounded-sm shadow-[0_0_5px_red]"></div>
-                </div>
-             </div>
-             <div className="flex items-center justify-between mb-2">
-                <span className="text-[10px] text-slate-300 font-mono">UNIBEAM</span>
-                <div className="flex items-center gap-2">
-                    <span className="text-[9px] text-cyan-600 uppercase">Open Palm</span>
-                    <div className="w-2 h-2 bg-blue-400 rounded-sm shadow-[0_0_5px_#3b82f6]"></div>
-                </div>
-             </div>
+             {GESTURE_CATEGORIES.filter(g => (gestureBindings[g.name] ?? 'none') !== 'none').map(g => {
+                const info = getActionInfo(gestureBindings[g.name]);
+                return (
+                    <div key={g.name} className="flex items-center justify-between mb-2">
+                        <span className="text-[10px] text-slate-300 font-mono">{info.label}</span>
+                        <div className="flex items-center gap-2">
+                            <span className="text-[9px] text-cyan-600 uppercase">
+                                {dualHands && gestureBindings[g.name] === 'unibeam' ? `${g.label} ×2` : g.label}
+                            </span>
+                            <div className={`w-2 h-2 ${info.dot}`}></div>
+                        </div>
+                    </div>
+                );
+             })}
              <div className="flex items-center justify-between">
                 <span className="text-[10px] text-slate-300 font-mono">AIM</span>
                 <div className="flex items-center gap-2">
@@ -1230,20 +1579,71 @@ const App: React.FC = () => {
              </div>
           </div>
 
+          <div className="flex gap-1 w-48 pointer-events-auto text-[9px] font-mono tracking-widest">
+             <button
+                onClick={toggleRecording}
+                disabled={!!replayName}
+                className={`flex-1 py-1 border bg-slate-900/80 disabled:opacity-30 ${isRecording ? 'border-red-500 text-red-400 animate-pulse' : 'border-cyan-500/30 text-cyan-500'}`}
+             >
+                {isRecording ? '■ SAVE REC' : '● REC'}
+             </button>
+             {replayName ? (
+                <button onClick={ejectReplay} className="flex-1 py-1 border border-yellow-500/50 text-yellow-400 bg-slate-900/80">
+                   EJECT REPLAY
+                </button>
+             ) : (
+                <label className="flex-1 py-1 border border-cyan-500/30 text-cyan-500 bg-slate-900/80 text-center cursor-pointer">
+                   LOAD REPLAY
+                   <input
+                      type="file"
+                      accept="application/json,.json"
+                      className="hidden"
+                      onChange={(e) => {
+                         const file = e.target.files?.[0];
+                         if (file) loadReplay(file);
+                         e.target.value = '';
+                      }}
+                   />
+                </label>
+             )}
+          </div>
+
           <div className="relative w-48 h-36 border border-cyan-500/50 rounded-lg overflow-hidden shadow-[0_0_15px_rgba(6,182,212,0.3)] bg-black">
              <video 
                 ref={videoRef} 
-                className="w-full h-full object-cover scale-x-[-1]" 
+                className={`w-full h-full object-cover ${cameraSettings.mirror ? 'scale-x-[-1]' : ''}`}
                 autoPlay 
                 playsInline 
                 muted 
              />
-             <div className="absolute top-1 left-2 text-[9px] text-cyan-400 font-mono tracking-widest bg-black/50 px-1 rounded">SYS.OPTICS // LIVE</div>
+             <OpticsOverlay
+                getVideo={() => videoRef.current}
+                getFrame={() => trackerFrameRef.current}
+                mirrored={cameraSettings.mirror}
+             />
+             <div className={`absolute top-1 left-2 max-w-[11rem] truncate text-[9px] font-mono tracking-widest bg-black/50 px-1 rounded
+                ${!replayName && (gestureStatus.state === 'unavailable' || cameraFault) ? 'text-red-400' : 'text-cyan-400'}`}>
+                {replayName ? `SYS.OPTICS // REPLAY ${replayName}` :
+                 cameraStatus === 'live' ? `SYS.OPTICS // LIVE ${streamInfo}` :
+                 `SYS.OPTICS // ${CAMERA_STATUS_INFO[cameraStatus].label}`}
+             </div>
+             {!replayName && (gestureStatus.state !== 'ready' || cameraFault) && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center gap-1 px-2 text-center text-[9px] font-mono tracking-widest">
+                   {gestureStatus.state === 'unavailable' || cameraFault ? (
+                      <>
+                         <span className="text-red-400">{gestureStatus.state === 'unavailable' ? gestureStatus.detail : CAMERA_STATUS_INFO[cameraStatus].hint}</span>
+                         <span className="text-slate-500">MOUSE / KEYS / GAMEPAD ACTIVE</span>
+                      </>
+                   ) : (
+                      <span className="text-cyan-600 animate-pulse">LOADING GESTURE MODEL...</span>
+                   )}
+                </div>
+             )}
           </div>
       </div>
 
       {/* Leaderboard */}
-      {gameState.status !== 'playing' && (
+      {(gameState.status === 'menu' || gameState.status === 'gameover') && (
         <div className="absolute right-8 top-8 w-64 bg-slate-900/80 border border-cyan-500/30 p-4 backdrop-blur max-h-[80vh] overflow-y-auto z-50">
             <h3 className="text-cyan-400 font-bold tracking-widest mb-4 border-b border-cyan-500/30 pb-2">TOP AGENTS</h3>
             <table className="w-full text-sm text-left">
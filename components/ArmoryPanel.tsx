@@ -0,0 +1,106 @@
+import React from 'react';
+import {
+  Loadout,
+  STOCK_STATS,
+  SuitStats,
+  UPGRADES,
+  UpgradeId,
+  canBuyUpgrade,
+  loadoutLevels,
+  nextUpgradeCost,
+  suitStats,
+  upgradeUnlocked
+} from '../game';
+
+// Current value next to stock, for the summary under the tree
+const STAT_ROWS: { key: keyof SuitStats; label: string; format: (v: number) => string }[] = [
+  { key: 'repulsorCooldownMs', label: 'REPULSOR COOLDOWN', format: v => `${Math.round(v)}ms` },
+  { key: 'maxBeamCharges', label: 'CAPACITOR CELLS', format: v => `${v}` },
+  { key: 'beamRegenMs', label: 'CELL RECHARGE', format: v => `${(v / 1000).toFixed(2)}s` },
+  { key: 'damageTaken', label: 'DAMAGE TAKEN', format: v => `${Math.round(v * 100)}%` },
+  { key: 'aimAssist', label: 'TARGETING ASSIST', format: v => `+${v.toFixed(2)}` }
+];
+
+const ArmoryPanel = ({
+  credits,
+  loadout,
+  notice,
+  onBuy,
+  onClose
+}: {
+  credits: number;
+  loadout: Loadout;
+  notice: string | null; // Shown over the tree, e.g. when purchases wait for the next wave
+  onBuy: (id: UpgradeId) => void;
+  onClose: () => void;
+}) => {
+  const stats = suitStats(loadout);
+
+  return (
+    <div className="absolute inset-0 bg-black/80 z-[60] flex items-center justify-center pointer-events-auto select-none font-sans text-white">
+      <div className="bg-slate-900/90 border border-amber-500/30 p-6 w-[30rem] shadow-[0_0_100px_rgba(245,158,11,0.15)]">
+        <div className="flex justify-between items-baseline border-b border-amber-500/30 pb-2 mb-2">
+          <h2 className="text-amber-400 font-bold tracking-[0.3em] text-sm">ARMORY // MARK {loadoutLevels(loadout) + 1}</h2>
+          <span className="text-[10px] font-mono tracking-widest text-amber-300">{credits} CR</span>
+        </div>
+        <div className="text-[10px] font-mono text-slate-500 mb-4">{notice ?? 'CREDITS ARE EARNED FROM SCORE AND KEPT BETWEEN RUNS'}</div>
+
+        <div className="flex flex-col gap-2 mb-4">
+          {UPGRADES.map(upgrade => {
+            const level = loadout[upgrade.id] ?? 0;
+            const cost = nextUpgradeCost(loadout, upgrade.id);
+            const unlocked = upgradeUnlocked(loadout, upgrade.id);
+            const affordable = canBuyUpgrade(loadout, upgrade.id, credits);
+            const parent = upgrade.requires && UPGRADES.find(u => u.id === upgrade.requires!.id);
+            return (
+              <div
+                key={upgrade.id}
+                className={`flex items-center gap-3 border px-3 py-2 ${upgrade.requires ? 'ml-6' : ''}
+                  ${unlocked ? 'border-slate-700' : 'border-slate-800 opacity-50'}`}
+              >
+                <div className="flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-[11px] font-bold tracking-widest text-slate-200">{upgrade.label}</span>
+                    <div className="flex gap-0.5">
+                      {upgrade.costs.map((_, i) => (
+                        <div key={i} className={`w-3 h-1.5 skew-x-[-12deg] ${i < level ? 'bg-amber-400' : 'bg-slate-700'}`} />
+                      ))}
+                    </div>
+                  </div>
+                  <div className="text-[9px] text-slate-500">
+                    {unlocked || !parent ? upgrade.description : `REQUIRES ${parent.label} LV${upgrade.requires!.level}`}
+                  </div>
+                </div>
+                <button
+                  onClick={() => onBuy(upgrade.id)}
+                  disabled={!affordable}
+                  className="w-20 py-1 text-[10px] font-mono tracking-widest border border-amber-500/50 text-amber-300 hover:bg-amber-400/10 disabled:border-slate-700 disabled:text-slate-600 disabled:hover:bg-transparent"
+                >
+                  {cost === null ? 'MAX' : `${cost} CR`}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="grid grid-cols-2 gap-x-4 gap-y-1 mb-4 text-[10px] font-mono tracking-widest">
+          {STAT_ROWS.map(({ key, label, format }) => (
+            <div key={key} className="flex justify-between">
+              <span className="text-slate-500">{label}</span>
+              <span className={stats[key] !== STOCK_STATS[key] ? 'text-amber-300' : 'text-slate-400'}>{format(stats[key])}</span>
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={onClose}
+          className="w-full py-2 text-[10px] font-mono tracking-widest border border-cyan-500/50 text-cyan-300 hover:bg-cyan-400/10"
+        >
+          DONE
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ArmoryPanel;
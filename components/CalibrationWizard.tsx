@@ -0,0 +1,167 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  CALIBRATION_TARGETS,
+  CalibrationProfile,
+  CornerSample,
+  fitCalibration
+} from '../input';
+
+const HOLD_MS = 1500; // How long the player holds a corner before it is captured
+const STABLE_RADIUS = 0.04; // Raw movement that restarts the hold
+const MIN_CORNER_DISTANCE = 0.1; // Raw distance from the last captured corner before a new hold starts
+
+const CORNER_LABELS = ['TOP LEFT', 'TOP RIGHT', 'BOTTOM RIGHT', 'BOTTOM LEFT'];
+
+const CalibrationWizard = ({
+  getRawAim,
+  onComplete,
+  onSkip
+}: {
+  getRawAim: () => { x: number; y: number } | null;
+  onComplete: (profile: CalibrationProfile) => void;
+  onSkip: () => void;
+}) => {
+  const [step, setStep] = useState(0);
+  const [progress, setProgress] = useState(0);
+  const [handVisible, setHandVisible] = useState(false);
+  const [awaitingMove, setAwaitingMove] = useState(false);
+  const [compensateTilt, setCompensateTilt] = useState(true);
+
+  const cornersRef = useRef<CornerSample[]>([]);
+  const samplesRef = useRef<{ x: number; y: number }[]>([]);
+  const holdStartRef = useRef<number | null>(null);
+  // Latest props/state for the rAF loop, which is only restarted per step
+  const compensateTiltRef = useRef(compensateTilt);
+  compensateTiltRef.current = compensateTilt;
+  const getRawAimRef = useRef(getRawAim);
+  getRawAimRef.current = getRawAim;
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  useEffect(() => {
+    if (step >= CALIBRATION_TARGETS.length) return;
+    let frameId = 0;
+
+    const tick = () => {
+      frameId = requestAnimationFrame(tick);
+      const now = performance.now();
+      const raw = getRawAimRef.current();
+      setHandVisible(!!raw);
+
+      if (!raw) {
+        holdStartRef.current = null;
+        samplesRef.current = [];
+        setProgress(0);
+        return;
+      }
+
+      // A hand left resting after a capture must not record the same point for this corner too
+      const previous = cornersRef.current[cornersRef.current.length - 1];
+      const tooClose = !!previous && Math.hypot(raw.x - previous.x, raw.y - previous.y) < MIN_CORNER_DISTANCE;
+      setAwaitingMove(tooClose);
+      if (tooClose) {
+        holdStartRef.current = null;
+        samplesRef.current = [];
+        setProgress(0);
+        return;
+      }
+
+      const samples = samplesRef.current;
+      if (samples.length > 0) {
+        const meanX = samples.reduce((s, p) => s + p.x, 0) / samples.length;
+        const meanY = samples.reduce((s, p) => s + p.y, 0) / samples.length;
+        if (Math.hypot(raw.x - meanX, raw.y - meanY) > STABLE_RADIUS) {
+          // Hand moved: restart the hold from here
+          samplesRef.current = [];
+          holdStartRef.current = null;
+        }
+      }
+
+      if (holdStartRef.current === null) holdStartRef.current = now;
+      samplesRef.current.push(raw);
+
+      const held = now - holdStartRef.current;
+      setProgress(Math.min(1, held / HOLD_MS));
+      if (held < HOLD_MS) return;
+
+      const captured = samplesRef.current;
+      const x = captured.reduce((s, p) => s + p.x, 0) / captured.length;
+      const y = captured.reduce((s, p) => s + p.y, 0) / captured.length;
+      const variance = captured.reduce((s, p) => s + (p.x - x) ** 2 + (p.y - y) ** 2, 0) / captured.length;
+      cornersRef.current.push({ x, y, spread: Math.sqrt(variance) });
+
+      samplesRef.current = [];
+      holdStartRef.current = null;
+      setProgress(0);
+
+      if (cornersRef.current.length === CALIBRATION_TARGETS.length) {
+        onCompleteRef.current(fitCalibration(cornersRef.current, compensateTiltRef.current));
+      }
+      setStep(cornersRef.current.length);
+    };
+
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [step]);
+
+  const restart = () => {
+    cornersRef.current = [];
+    samplesRef.current = [];
+    holdStartRef.current = null;
+    setProgress(0);
+    setStep(0);
+  };
+
+  const target = CALIBRATION_TARGETS[Math.min(step, CALIBRATION_TARGETS.length - 1)];
+
+  return (
+    <div className="absolute inset-0 bg-black/90 z-[60] pointer-events-auto select-none font-sans text-white">
+      {/* Corner Target */}
+      <div
+        className="absolute"
+        style={{ left: `${target.x * 100}%`, top: `${target.y * 100}%`, transform: 'translate(-50%, -50%)' }}
+      >
+        <div className="relative w-16 h-16 flex items-center justify-center">
+          <div className="absolute inset-0 rounded-full border-2 border-cyan-900"></div>
+          <div
+            className="absolute inset-0 rounded-full border-2 border-cyan-400 shadow-[0_0_15px_cyan]"
+            style={{ clipPath: `inset(${(1 - progress) * 100}% 0 0 0)` }}
+          ></div>
+          <div className="w-2 h-2 rounded-full bg-cyan-300 animate-pulse"></div>
+        </div>
+      </div>
+
+      {/* Instructions */}
+      <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-96 text-center bg-slate-900/90 border border-cyan-500/30 p-6">
+        <h2 className="text-cyan-400 font-bold tracking-[0.3em] text-sm border-b border-cyan-500/30 pb-2 mb-4">REACH CALIBRATION</h2>
+        <div className="text-xs font-mono text-slate-300 mb-2">
+          STEP {Math.min(step + 1, CALIBRATION_TARGETS.length)}/{CALIBRATION_TARGETS.length} // POINT AT {CORNER_LABELS[Math.min(step, CORNER_LABELS.length - 1)]}
+        </div>
+        <div className={`text-[10px] font-mono tracking-widest mb-4 ${handVisible ? 'text-cyan-500' : 'text-red-500 animate-pulse'}`}>
+          {!handVisible ? 'NO HAND DETECTED' : awaitingMove ? 'MOVE TO THE NEXT CORNER' : 'HOLD STEADY...'}
+        </div>
+
+        <label className="flex items-center justify-center gap-2 text-[10px] font-mono text-slate-400 mb-4 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={compensateTilt}
+            onChange={(e) => setCompensateTilt(e.target.checked)}
+            className="accent-cyan-500"
+          />
+          COMPENSATE CAMERA TILT
+        </label>
+
+        <div className="flex gap-2">
+          <button onClick={restart} className="flex-1 py-2 text-[10px] font-mono tracking-widest border border-slate-700 text-slate-400 hover:border-cyan-500/50">
+            RESTART
+          </button>
+          <button onClick={onSkip} className="flex-1 py-2 text-[10px] font-mono tracking-widest border border-slate-700 text-slate-400 hover:border-cyan-500/50">
+            SKIP
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CalibrationWizard;
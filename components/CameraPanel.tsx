@@ -0,0 +1,121 @@
+import React from 'react';
+import {
+  CAMERA_FRAME_RATES,
+  CAMERA_RESOLUTIONS,
+  CAMERA_STATUS_INFO,
+  CameraSettings,
+  CameraStatus
+} from '../input';
+
+const selectClass = "bg-slate-950 border border-slate-700 text-cyan-300 px-2 py-1 text-[10px] font-mono focus:border-cyan-500 outline-none w-40";
+
+const CameraPanel = ({
+  settings,
+  devices,
+  status,
+  streamInfo,
+  onChange,
+  onRetry,
+  onClose
+}: {
+  settings: CameraSettings;
+  devices: MediaDeviceInfo[];
+  status: CameraStatus;
+  streamInfo: string;
+  onChange: (settings: CameraSettings) => void;
+  onRetry: () => void;
+  onClose: () => void;
+}) => {
+  const info = CAMERA_STATUS_INFO[status];
+  const resolutionKey = `${settings.width}x${settings.height}`;
+
+  return (
+    <div className="absolute inset-0 bg-black/90 backdrop-blur-sm flex items-center justify-center pointer-events-auto z-[60] font-sans text-white">
+      <div className="bg-slate-900/90 border border-cyan-500/30 p-6 w-96 shadow-[0_0_100px_rgba(6,182,212,0.2)]">
+        <h2 className="text-cyan-400 font-bold tracking-[0.3em] text-sm border-b border-cyan-500/30 pb-2 mb-4">OPTICS CONFIGURATION</h2>
+
+        {/* Stream Status */}
+        <div className={`mb-4 p-2 border text-[10px] font-mono tracking-widest
+          ${status === 'live' ? 'border-cyan-500/30 text-cyan-300' :
+            status === 'starting' ? 'border-slate-700 text-slate-400 animate-pulse' :
+            'border-red-500/40 text-red-400 bg-red-900/10'}`}>
+          <div>STATUS // {info.label}{status === 'live' && streamInfo ? ` ${streamInfo}` : ''}</div>
+          {info.hint && <div className="mt-1 text-slate-400 normal-case tracking-normal">{info.hint}</div>}
+        </div>
+
+        <div className="flex flex-col gap-2 mb-6">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] text-slate-300 font-mono tracking-widest">DEVICE</span>
+            <select
+              value={settings.deviceId ?? ''}
+              onChange={(e) => onChange({ ...settings, deviceId: e.target.value || null })}
+              className={selectClass}
+            >
+              <option value="">SYSTEM DEFAULT</option>
+              {devices.map((d, i) => (
+                // Labels stay empty until camera permission has been granted
+                <option key={d.deviceId} value={d.deviceId}>{d.label || `CAMERA ${i + 1}`}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] text-slate-300 font-mono tracking-widest">RESOLUTION</span>
+            <select
+              value={resolutionKey}
+              onChange={(e) => {
+                const [width, height] = e.target.value.split('x').map(Number);
+                onChange({ ...settings, width, height });
+              }}
+              className={selectClass}
+            >
+              {CAMERA_RESOLUTIONS.map(r => (
+                <option key={`${r.width}x${r.height}`} value={`${r.width}x${r.height}`}>{r.width} x {r.height}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] text-slate-300 font-mono tracking-widest">FRAME RATE</span>
+            <select
+              value={settings.frameRate}
+              onChange={(e) => onChange({ ...settings, frameRate: Number(e.target.value) })}
+              className={selectClass}
+            >
+              {CAMERA_FRAME_RATES.map(fps => (
+                <option key={fps} value={fps}>{fps} FPS</option>
+              ))}
+            </select>
+          </div>
+
+          <label className="flex items-center justify-between cursor-pointer">
+            <span className="text-[10px] text-slate-300 font-mono tracking-widest">MIRROR IMAGE</span>
+            <input
+              type="checkbox"
+              checked={settings.mirror}
+              onChange={(e) => onChange({ ...settings, mirror: e.target.checked })}
+              className="accent-cyan-500"
+            />
+          </label>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={onRetry}
+            className="flex-1 py-2 text-[10px] font-mono tracking-widest border border-slate-700 text-slate-400 hover:border-cyan-500/50"
+          >
+            RETRY
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 py-2 text-[10px] font-mono tracking-widest border border-cyan-500/50 text-cyan-300 hover:bg-cyan-400/10"
+          >
+            DONE
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CameraPanel;
@@ -0,0 +1,156 @@
+import React, { useEffect, useRef } from 'react';
+import {
+  CURSOR_FILTER_LIMITS,
+  CursorFilterSettings,
+  DEFAULT_CURSOR_FILTER,
+  InputSourceId,
+  OneEuroConfig,
+  createPointFilter
+} from '../input';
+
+const TRAIL_LENGTH = 45; // Frames of history drawn behind the preview reticle
+
+const SLIDERS: { key: keyof OneEuroConfig; label: string; hint: string }[] = [
+  { key: 'minCutoff', label: 'STEADINESS', hint: 'Min cutoff (Hz). Lower holds still aim steadier.' },
+  { key: 'beta', label: 'RESPONSIVENESS', hint: 'Speed coefficient. Higher reduces lag on fast flicks.' },
+  { key: 'dCutoff', label: 'SPEED SMOOTHING', hint: 'Derivative cutoff (Hz) for the speed estimate.' }
+];
+
+const CursorFilterPanel = ({
+  settings,
+  getTarget,
+  onChange,
+  onClose
+}: {
+  settings: CursorFilterSettings;
+  getTarget: () => { x: number; y: number; source: InputSourceId | null };
+  onChange: (settings: CursorFilterSettings) => void;
+  onClose: () => void;
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Latest props for the rAF loop, which runs for the lifetime of the panel
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const getTargetRef = useRef(getTarget);
+  getTargetRef.current = getTarget;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const filter = createPointFilter(() => settingsRef.current);
+    const raw: { x: number; y: number }[] = [];
+    const smoothed: { x: number; y: number }[] = [];
+    let frameId = 0;
+
+    const tick = () => {
+      frameId = requestAnimationFrame(tick);
+      if (canvas.width !== canvas.clientWidth) canvas.width = canvas.clientWidth;
+      if (canvas.height !== canvas.clientHeight) canvas.height = canvas.clientHeight;
+      const w = canvas.width;
+      const h = canvas.height;
+
+      const target = getTargetRef.current();
+      const bypass = target.source === 'mouse' && !settingsRef.current.filterMouse;
+      if (bypass) filter.reset();
+      const point = bypass ? { x: target.x, y: target.y } : filter.filter(target, performance.now() / 1000);
+
+      raw.push({ x: target.x, y: target.y });
+      smoothed.push(point);
+      if (raw.length > TRAIL_LENGTH) raw.shift();
+      if (smoothed.length > TRAIL_LENGTH) smoothed.shift();
+
+      ctx.clearRect(0, 0, w, h);
+
+      // Raw input as faint dots
+      ctx.fillStyle = 'rgba(148, 163, 184, 0.5)';
+      raw.forEach(p => ctx.fillRect(p.x * w - 1, p.y * h - 1, 2, 2));
+
+      // Filtered path fading out behind the reticle
+      for (let i = 1; i < smoothed.length; i++) {
+        ctx.strokeStyle = `rgba(34, 211, 238, ${i / smoothed.length})`;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.moveTo(smoothed[i - 1].x * w, smoothed[i - 1].y * h);
+        ctx.lineTo(smoothed[i].x * w, smoothed[i].y * h);
+        ctx.stroke();
+      }
+
+      ctx.strokeStyle = 'rgba(34, 211, 238, 0.8)';
+      ctx.shadowColor = 'cyan';
+      ctx.shadowBlur = 10;
+      ctx.beginPath();
+      ctx.arc(point.x * w, point.y * h, 16, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.shadowBlur = 0;
+      ctx.fillStyle = '#67e8f9';
+      ctx.fillRect(point.x * w - 2, point.y * h - 2, 4, 4);
+    };
+
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, []);
+
+  return (
+    <div className="absolute inset-0 bg-black/80 z-[60] pointer-events-auto select-none font-sans text-white">
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+
+      <div className="absolute top-1/2 right-8 -translate-y-1/2 bg-slate-900/90 border border-cyan-500/30 p-6 w-80 shadow-[0_0_100px_rgba(6,182,212,0.2)]">
+        <h2 className="text-cyan-400 font-bold tracking-[0.3em] text-sm border-b border-cyan-500/30 pb-2 mb-2">AIM SMOOTHING</h2>
+        <div className="text-[10px] font-mono text-slate-500 mb-4">MOVE YOUR HAND OR MOUSE TO PREVIEW</div>
+
+        <div className="flex flex-col gap-3 mb-4">
+          {SLIDERS.map(({ key, label, hint }) => {
+            const limits = CURSOR_FILTER_LIMITS[key];
+            return (
+              <label key={key} className="flex flex-col gap-1">
+                <div className="flex justify-between text-[10px] font-mono tracking-widest">
+                  <span className="text-slate-300">{label}</span>
+                  <span className="text-cyan-300">{settings[key].toFixed(1)}</span>
+                </div>
+                <input
+                  type="range"
+                  min={limits.min}
+                  max={limits.max}
+                  step={limits.step}
+                  value={settings[key]}
+                  onChange={(e) => onChange({ ...settings, [key]: Number(e.target.value) })}
+                  className="accent-cyan-500"
+                />
+                <span className="text-[9px] text-slate-500">{hint}</span>
+              </label>
+            );
+          })}
+
+          <label className="flex items-center justify-between cursor-pointer">
+            <span className="text-[10px] text-slate-300 font-mono tracking-widest">SMOOTH MOUSE AIM</span>
+            <input
+              type="checkbox"
+              checked={settings.filterMouse}
+              onChange={(e) => onChange({ ...settings, filterMouse: e.target.checked })}
+              className="accent-cyan-500"
+            />
+          </label>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => onChange(DEFAULT_CURSOR_FILTER)}
+            className="flex-1 py-2 text-[10px] font-mono tracking-widest border border-slate-700 text-slate-400 hover:border-cyan-500/50"
+          >
+            RESET DEFAULTS
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 py-2 text-[10px] font-mono tracking-widest border border-cyan-500/50 text-cyan-300 hover:bg-cyan-400/10"
+          >
+            DONE
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CursorFilterPanel;
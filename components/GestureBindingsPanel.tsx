@@ -0,0 +1,60 @@
+import React from 'react';
+import {
+  BINDABLE_ACTIONS,
+  DEFAULT_GESTURE_BINDINGS,
+  GESTURE_CATEGORIES,
+  GestureBinding,
+  GestureBindings
+} from '../input';
+
+const GestureBindingsPanel = ({
+  bindings,
+  onChange,
+  onClose
+}: {
+  bindings: GestureBindings;
+  onChange: (bindings: GestureBindings) => void;
+  onClose: () => void;
+}) => {
+  return (
+    <div className="absolute inset-0 bg-black/90 backdrop-blur-sm flex items-center justify-center pointer-events-auto z-[60] font-sans text-white">
+      <div className="bg-slate-900/90 border border-cyan-500/30 p-6 w-96 shadow-[0_0_100px_rgba(6,182,212,0.2)]">
+        <h2 className="text-cyan-400 font-bold tracking-[0.3em] text-sm border-b border-cyan-500/30 pb-2 mb-4">GESTURE BINDINGS</h2>
+
+        <div className="flex flex-col gap-2 mb-6">
+          {GESTURE_CATEGORIES.map(gesture => (
+            <div key={gesture.name} className="flex items-center justify-between">
+              <span className="text-[10px] text-slate-300 font-mono uppercase tracking-widest">{gesture.label}</span>
+              <select
+                value={bindings[gesture.name] ?? 'none'}
+                onChange={(e) => onChange({ ...bindings, [gesture.name]: e.target.value as GestureBinding })}
+                className="bg-slate-950 border border-slate-700 text-cyan-300 px-2 py-1 text-[10px] font-mono focus:border-cyan-500 outline-none w-32"
+              >
+                {BINDABLE_ACTIONS.map(opt => (
+                  <option key={opt.action} value={opt.action}>{opt.label}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => onChange(DEFAULT_GESTURE_BINDINGS)}
+            className="flex-1 py-2 text-[10px] font-mono tracking-widest border border-slate-700 text-slate-400 hover:border-cyan-500/50"
+          >
+            RESET DEFAULTS
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 py-2 text-[10px] font-mono tracking-widest border border-cyan-500/50 text-cyan-300 hover:bg-cyan-400/10"
+          >
+            DONE
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GestureBindingsPanel;
@@ -0,0 +1,138 @@
+import React, { useEffect, useRef } from 'react';
+import {
+  DEFAULT_GESTURE_FILTER,
+  GESTURE_CATEGORIES,
+  GestureResults,
+  HAND_CONNECTIONS,
+  INDEX_TIP
+} from '../input';
+
+const STALE_MS = 500; // No recognizer output for this long means the tracker has stalled
+const MAX_BARS = 3; // Gesture categories listed per hand
+
+const shortName = (name: string) =>
+  name === 'None' ? 'NONE' : GESTURE_CATEGORIES.find(g => g.name === name)?.short ?? name.toUpperCase();
+
+// What the tracker sees, drawn over the optics preview: skeleton, aim point and
+// per-hand gesture confidence, plus a warning when tracking drops out
+const OpticsOverlay = ({
+  getVideo,
+  getFrame,
+  mirrored
+}: {
+  getVideo: () => HTMLVideoElement | null;
+  getFrame: () => { time: number; results: GestureResults } | null;
+  mirrored: boolean;
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Latest props for the rAF loop, which runs for the lifetime of the overlay
+  const mirroredRef = useRef(mirrored);
+  mirroredRef.current = mirrored;
+  const getFrameRef = useRef(getFrame);
+  getFrameRef.current = getFrame;
+  const getVideoRef = useRef(getVideo);
+  getVideoRef.current = getVideo;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    let frameId = 0;
+
+    const tick = () => {
+      frameId = requestAnimationFrame(tick);
+      const dpr = window.devicePixelRatio || 1;
+      const w = canvas.clientWidth;
+      const h = canvas.clientHeight;
+      if (canvas.width !== w * dpr) canvas.width = w * dpr;
+      if (canvas.height !== h * dpr) canvas.height = h * dpr;
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, w, h);
+
+      const frame = getFrameRef.current();
+      if (!frame) return;
+
+      const stale = Date.now() - frame.time > STALE_MS;
+      const hands = stale ? [] : frame.results.landmarks ?? [];
+
+      // The preview is object-cover, so map normalized landmarks through the same crop
+      const video = getVideoRef.current();
+      const vw = video?.videoWidth || w;
+      const vh = video?.videoHeight || h;
+      const scale = Math.max(w / vw, h / vh);
+      const ox = (w - vw * scale) / 2;
+      const oy = (h - vh * scale) / 2;
+      const toPx = (p: { x: number; y: number }) => ({
+        x: ox + (mirroredRef.current ? 1 - p.x : p.x) * vw * scale,
+        y: oy + p.y * vh * scale
+      });
+
+      hands.forEach(landmarks => {
+        const points = landmarks.map(toPx);
+
+        ctx.strokeStyle = 'rgba(34, 211, 238, 0.7)';
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        HAND_CONNECTIONS.forEach(([a, b]) => {
+          ctx.moveTo(points[a].x, points[a].y);
+          ctx.lineTo(points[b].x, points[b].y);
+        });
+        ctx.stroke();
+
+        ctx.fillStyle = '#a5f3fc';
+        points.forEach(p => ctx.fillRect(p.x - 1, p.y - 1, 2, 2));
+
+        // Aiming fingertip
+        const tip = points[INDEX_TIP];
+        ctx.strokeStyle = '#facc15';
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        ctx.arc(tip.x, tip.y, 4, 0, Math.PI * 2);
+        ctx.stroke();
+      });
+
+      // Confidence bars, one column per hand along the bottom edge
+      ctx.font = '7px monospace';
+      ctx.textBaseline = 'middle';
+      const colWidth = w / Math.max(1, hands.length);
+      hands.forEach((_, i) => {
+        const categories = (frame.results.gestures[i] ?? []).slice(0, MAX_BARS);
+        categories.forEach((cat, row) => {
+          const x = i * colWidth + 4;
+          const y = h - 6 - (categories.length - 1 - row) * 9;
+          const barWidth = colWidth - 44;
+          const active = row === 0 && cat.score >= DEFAULT_GESTURE_FILTER.enterScore;
+
+          ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+          ctx.fillRect(x - 2, y - 4, colWidth - 4, 8);
+          ctx.fillStyle = active ? '#67e8f9' : '#94a3b8';
+          ctx.fillText(shortName(cat.categoryName), x, y);
+          ctx.fillStyle = 'rgba(51, 65, 85, 0.8)';
+          ctx.fillRect(x + 36, y - 2, barWidth, 4);
+          ctx.fillStyle = active ? '#22d3ee' : '#64748b';
+          ctx.fillRect(x + 36, y - 2, barWidth * Math.min(1, cat.score), 4);
+        });
+      });
+
+      if (hands.length === 0) {
+        ctx.strokeStyle = 'rgba(239, 68, 68, 0.8)';
+        ctx.lineWidth = 2;
+        ctx.strokeRect(1, 1, w - 2, h - 2);
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.fillRect(0, h - 14, w, 14);
+        ctx.font = '8px monospace';
+        ctx.textAlign = 'center';
+        ctx.fillStyle = '#f87171';
+        ctx.fillText(stale ? 'TRACKER STALLED' : 'TRACKING LOST // NO HAND', w / 2, h - 7);
+        ctx.textAlign = 'start';
+      }
+    };
+
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, []);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />;
+};
+
+export default OpticsOverlay;
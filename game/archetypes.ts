@@ -0,0 +1,126 @@
+import { COLLISION_DAMAGE, ENEMY_HP, REPULSOR_KILL_SCORE } from './constants';
+import { EnemyArchetypeId } from './types';
+
+// --- Enemy Archetypes ---
+// Everything the simulation needs to know about an enemy type. The matching look lives in
+// enemyModels.ts under the same ID, so this registry stays free of three.js.
+
+// How an enemy closes in on the player
+//   seek   - the original drone: steers hard far out, lazily once within 20 units
+//   dive   - never eases off, so it is hard to sidestep
+//   zigzag - seeks while weaving side to side
+//   hover  - holds station HOVER_DISTANCE ahead of the player, drifting sideways
+export type SteeringBehaviour = 'seek' | 'dive' | 'zigzag' | 'hover';
+
+// What a non-lethal repulsor hit does besides the damage
+export type HitReaction =
+  | { type: 'none' }
+  | { type: 'stagger'; distance: number } // Knocked back along the shot
+  | { type: 'dodge' }; // Flips its weave to the other side
+
+// A ranged attack: the enemy glows for chargeMs (the telegraph), then fires one projectile
+// at where the player is at that moment
+export interface EnemyWeapon {
+  chargeMs: number;
+  cooldownMs: number; // From one shot to the next charge
+  range: number; // Only charges when the player is this close
+  projectileSpeed: number;
+  damage: number;
+}
+
+export interface EnemyArchetype {
+  id: EnemyArchetypeId;
+  label: string;
+  hp: number;
+  speed: number; // Multiplier on the wave's approach speed
+  steering: SteeringBehaviour;
+  score: number; // Awarded for a repulsor kill
+  damage: number; // Armor lost when it reaches the player
+  size: number; // Scales the model, hitbox and collision radius
+  hitReaction: HitReaction;
+  // Breaks into smaller enemies when shot down
+  splitsInto?: { archetype: EnemyArchetypeId; count: number };
+  weapon?: EnemyWeapon;
+}
+
+export const ENEMY_ARCHETYPES: Record<EnemyArchetypeId, EnemyArchetype> = {
+  drone: {
+    id: 'drone',
+    label: 'DRONE',
+    hp: ENEMY_HP,
+    speed: 1,
+    steering: 'seek',
+    score: REPULSOR_KILL_SCORE,
+    damage: COLLISION_DAMAGE,
+    size: 1,
+    hitReaction: { type: 'none' }
+  },
+  armored: {
+    id: 'armored',
+    label: 'ARMORED DRONE',
+    hp: 300, // Three repulsor hits, or one charged shot
+    speed: 0.7,
+    steering: 'seek',
+    score: 40,
+    damage: 30,
+    size: 1.3,
+    hitReaction: { type: 'stagger', distance: 3 }
+  },
+  splitter: {
+    id: 'splitter',
+    label: 'SPLITTER',
+    hp: 200,
+    speed: 0.85,
+    steering: 'seek',
+    score: 25,
+    damage: COLLISION_DAMAGE,
+    size: 1.15,
+    hitReaction: { type: 'stagger', distance: 1.5 },
+    splitsInto: { archetype: 'shard', count: 3 }
+  },
+  shard: {
+    id: 'shard',
+    label: 'SHARD',
+    hp: 50,
+    speed: 1.3,
+    steering: 'seek',
+    score: 5,
+    damage: 10,
+    size: 0.5,
+    hitReaction: { type: 'none' }
+  },
+  kamikaze: {
+    id: 'kamikaze',
+    label: 'KAMIKAZE',
+    hp: 60,
+    speed: 2.2,
+    steering: 'dive',
+    score: 20,
+    damage: 35,
+    size: 0.8,
+    hitReaction: { type: 'none' }
+  },
+  zigzagger: {
+    id: 'zigzagger',
+    label: 'ZIG-ZAGGER',
+    hp: 100,
+    speed: 1.1,
+    steering: 'zigzag',
+    score: 30,
+    damage: COLLISION_DAMAGE,
+    size: 0.9,
+    hitReaction: { type: 'dodge' }
+  },
+  gunship: {
+    id: 'gunship',
+    label: 'GUNSHIP',
+    hp: 150,
+    speed: 1,
+    steering: 'hover',
+    score: 35,
+    damage: COLLISION_DAMAGE,
+    size: 1.1,
+    hitReaction: { type: 'stagger', distance: 2 },
+    weapon: { chargeMs: 900, cooldownMs: 2500, range: 50, projectileSpeed: 18, damage: 10 }
+  }
+};
@@ -0,0 +1,104 @@
+import * as THREE from 'three';
+import { BOSSES } from './bosses';
+import { Boss } from './types';
+
+// --- Boss Model ---
+// Built when a boss arrives and disposed when it dies: one mesh per part, a bubble for the
+// immunity windows and a charge orb for the volley telegraph.
+
+export interface BossView {
+  readonly id: string;
+  sync: (boss: Boss, time: number, delta: number) => void;
+  // Returns false when the part is not one of this boss's
+  flash: (partId: string) => boolean;
+  dispose: () => void;
+}
+
+interface PartView {
+  mesh: THREE.Mesh;
+  material: THREE.Material;
+  flash: number; // Seconds left
+}
+
+const FLASH_SECONDS = 0.05;
+
+export const createBossView = (scene: THREE.Scene, boss: Boss): BossView => {
+  const root = new THREE.Group();
+  const materials = {
+    hull: new THREE.MeshStandardMaterial({ color: 0x1a1a1a, emissive: 0x660000, emissiveIntensity: 0.8, roughness: 0.3, metalness: 0.9 }),
+    weakPoint: new THREE.MeshStandardMaterial({ color: 0x222222, emissive: 0xffaa00, emissiveIntensity: 1.2 }),
+    flash: new THREE.MeshStandardMaterial({ color: 0x222222, emissive: 0xffffff, emissiveIntensity: 1 }),
+    shield: new THREE.MeshBasicMaterial({
+      color: 0x66ffff,
+      transparent: true,
+      opacity: 0.2,
+      blending: THREE.AdditiveBlending,
+      side: THREE.DoubleSide,
+      depthWrite: false
+    }),
+    charge: new THREE.MeshBasicMaterial({ color: 0xff3366, transparent: true, opacity: 0.9, blending: THREE.AdditiveBlending })
+  };
+  const geometries: THREE.BufferGeometry[] = [];
+  const track = <G extends THREE.BufferGeometry>(geometry: G) => {
+    geometries.push(geometry);
+    return geometry;
+  };
+
+  const parts = new Map<string, PartView>();
+  boss.parts.forEach(part => {
+    const material = part.weakPoint ? materials.weakPoint : materials.hull;
+    const geometry = part.weakPoint ? new THREE.SphereGeometry(part.radius, 16, 16) : new THREE.IcosahedronGeometry(part.radius, 1);
+    const mesh = new THREE.Mesh(track(geometry), material);
+    mesh.position.set(part.offset.x, part.offset.y, part.offset.z);
+    root.add(mesh);
+    parts.set(part.id, { mesh, material, flash: 0 });
+  });
+
+  const shield = new THREE.Mesh(track(new THREE.SphereGeometry(11, 32, 16)), materials.shield);
+  shield.visible = false;
+  root.add(shield);
+
+  const chargeOrb = new THREE.Mesh(track(new THREE.SphereGeometry(1.2, 16, 16)), materials.charge);
+  chargeOrb.position.z = 4.5; // Toward the player
+  chargeOrb.visible = false;
+  root.add(chargeOrb);
+
+  scene.add(root);
+
+  return {
+    id: boss.id,
+    sync: (current, time, delta) => {
+      root.position.set(current.position.x, current.position.y, current.position.z);
+      root.rotation.z = Math.sin(time / 900) * 0.08; // Slow menacing roll
+
+      current.parts.forEach(part => {
+        const view = parts.get(part.id);
+        if (!view) return;
+        view.mesh.visible = !part.weakPoint || part.hp > 0;
+        view.flash = Math.max(0, view.flash - delta);
+        view.mesh.material = view.flash > 0 ? materials.flash : view.material;
+      });
+
+      shield.visible = time < current.immuneUntil;
+      if (shield.visible) shield.rotation.y += delta;
+
+      const phase = (BOSSES.find(b => b.id === current.definition) ?? BOSSES[0]).phases[current.phase];
+      chargeOrb.visible = current.fireAt !== null;
+      if (current.fireAt !== null) {
+        const progress = 1 - (current.fireAt - time) / phase.volley.chargeMs;
+        chargeOrb.scale.setScalar(0.2 + Math.max(0, progress) * 1.5);
+      }
+    },
+    flash: (partId) => {
+      const view = parts.get(partId);
+      if (!view) return false;
+      view.flash = FLASH_SECONDS;
+      return true;
+    },
+    dispose: () => {
+      scene.remove(root);
+      geometries.forEach(g => g.dispose());
+      Object.values(materials).forEach(m => m.dispose());
+    }
+  };
+};
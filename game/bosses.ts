@@ -0,0 +1,78 @@
+import { EnemyArchetypeId, Vec3 } from './types';
+
+// --- Boss Definitions ---
+// A wave script's 'boss' win condition (and every BOSS_WAVE_INTERVAL-th generated wave) brings
+// one in: the boss holds station ahead of the player and the wave only ends when it dies. Its
+// health is split evenly between the phases; each phase change grants a short immunity window
+// and restores the weak points.
+
+export interface BossPartSpec {
+  id: string;
+  offset: Vec3; // From the boss center
+  radius: number;
+  // Weak points take full damage and can be shot off until the next phase; the hull only
+  // passes on HULL_DAMAGE_SCALE of what it takes
+  weakPoint: boolean;
+  hp: number; // Weak points only
+}
+
+// Fan of projectiles after a visible charge, like an armed enemy's shot
+export interface BossVolley {
+  chargeMs: number;
+  cooldownMs: number;
+  shots: number;
+  spread: number; // Radians between neighbouring shots
+  projectileSpeed: number;
+  damage: number;
+}
+
+export interface BossPhase {
+  volley: BossVolley;
+  summon?: { archetype: EnemyArchetypeId; everyMs: number };
+}
+
+export interface BossDefinition {
+  id: string;
+  label: string;
+  hp: number; // For the first appearance; later ones scale up
+  score: number;
+  parts: BossPartSpec[];
+  phases: BossPhase[];
+  immunityMs: number;
+  overloadDamage: number; // Fraction of max HP an overload takes off, instead of killing outright
+  unibeamDamage: number; // Multiplier on each unibeam tick, so the held beam cannot melt a boss
+}
+
+export const HULL_DAMAGE_SCALE = 0.2;
+export const BOSS_HP_GROWTH = 0.5; // Extra max HP per earlier boss defeated
+
+export const BOSSES: BossDefinition[] = [
+  {
+    id: 'dreadnought',
+    label: 'DREADNOUGHT',
+    hp: 3000,
+    score: 1000,
+    parts: [
+      { id: 'core', offset: { x: 0, y: 0, z: 0 }, radius: 4, weakPoint: false, hp: 0 },
+      { id: 'wing-left', offset: { x: -6, y: 0, z: 0 }, radius: 2.5, weakPoint: false, hp: 0 },
+      { id: 'wing-right', offset: { x: 6, y: 0, z: 0 }, radius: 2.5, weakPoint: false, hp: 0 },
+      { id: 'pod-left', offset: { x: -8.5, y: 0, z: 1 }, radius: 1.3, weakPoint: true, hp: 400 },
+      { id: 'pod-right', offset: { x: 8.5, y: 0, z: 1 }, radius: 1.3, weakPoint: true, hp: 400 },
+      { id: 'eye', offset: { x: 0, y: -2.5, z: 3 }, radius: 1.3, weakPoint: true, hp: 400 }
+    ],
+    phases: [
+      { volley: { chargeMs: 1200, cooldownMs: 3000, shots: 3, spread: 0.12, projectileSpeed: 20, damage: 10 } },
+      {
+        volley: { chargeMs: 1000, cooldownMs: 2500, shots: 5, spread: 0.1, projectileSpeed: 22, damage: 10 },
+        summon: { archetype: 'drone', everyMs: 4000 }
+      },
+      {
+        volley: { chargeMs: 800, cooldownMs: 1800, shots: 7, spread: 0.09, projectileSpeed: 25, damage: 12 },
+        summon: { archetype: 'kamikaze', everyMs: 3500 }
+      }
+    ],
+    immunityMs: 2500,
+    overloadDamage: 0.08,
+    unibeamDamage: 0.3
+  }
+];
@@ -0,0 +1,74 @@
+// --- Gameplay Constants ---
+
+export const PLAYER_HEIGHT = 1.5;
+export const FLIGHT_SPEED = 15.0; // Automatic forward speed
+export const CAMERA_FOV = 75; // Degrees (vertical); aim rays are cast through this frustum
+export const REPULSOR_COOLDOWN_MS = 200;
+export const BEAM_DURATION_MS = 1000; // How long a fired unibeam lasts, sweeping with the aim
+export const BEAM_CHARGE_MS = 600; // Held this long before the unibeam fires
+export const WAVE_DURATION_SEC = 45;
+export const MAX_BEAM_CHARGES = 5;
+export const BEAM_REGEN_MS = 1000; // 1 Second per charge (5 charges in 5 seconds)
+export const BEAM_AOE_RADIUS = 3.5; // Enemies this close to the beam's line are caught in it
+export const BEAM_TICK_MS = 100; // The beam deals its damage in ticks
+export const BEAM_TICK_DAMAGE = 120; // Per tick, at point-blank range
+export const BEAM_FAR_DAMAGE = 0.25; // Fraction of the tick damage left at AIM_RANGE
+export const SHIELD_DURATION_MS = 2000;
+export const SHIELD_COOLDOWN_MS = 8000; // Measured from activation
+export const MAX_HEALTH = 100;
+export const RESUME_COUNTDOWN_MS = 3000; // Grace period between unpausing and enemies moving again
+
+export const AIM_RANGE = 100; // How far a shot travels when it hits nothing
+export const OVERLOAD_RADIUS = 80; // Essentially the entire visible combat corridor
+export const OVERLOAD_COOLDOWN_MS = 30000; // Measured from activation
+export const REPULSOR_DAMAGE = 100;
+export const CHARGED_REPULSOR_DAMAGE = 300;
+export const REPULSOR_KILL_SCORE = 10;
+export const UNIBEAM_KILL_SCORE = 50;
+export const COLLISION_DAMAGE = 20;
+export const LOW_HEALTH = 20; // Health at or below which the alarm sounds
+
+export const COMBO_WINDOW_MS = 2500; // A hit within this long of the last one keeps the combo going
+export const COMBO_HITS_PER_LEVEL = 5; // Hits per step up of the score multiplier
+export const MAX_COMBO_MULTIPLIER = 5;
+export const MULTI_KILL_BONUS = 20; // Per kill beyond the first from one shot, beam tick or overload
+export const LONG_RANGE_DISTANCE = 45; // Repulsor and unibeam kills this far away earn a bonus
+export const LONG_RANGE_BONUS = 15;
+export const NO_DAMAGE_WAVE_BONUS = 200; // For finishing a wave without losing armor
+
+export const SCORE_PER_CREDIT = 10; // Points banked per upgrade credit
+
+export const PICKUP_DROP_CHANCE = 0.12; // Per enemy destroyed by the player
+export const PICKUP_LIFETIME_MS = 10000;
+export const PICKUP_RADIUS = 1.5; // Flying through this close collects it
+export const PICKUP_AIM_RADIUS = 2.5; // Aiming this close to it collects it
+export const PICKUP_AIM_DELAY_MS = 500; // Before aiming can collect it, so the killing shot does not
+export const PICKUP_REPAIR = 25; // Armor restored
+export const RAPID_FIRE_COOLDOWN_SCALE = 0.35; // Repulsor cooldown multiplier while rapid fire lasts
+export const FOCUS_TIME_SCALE = 0.4; // How fast enemies and their fire move while focus lasts
+
+export const ENEMY_HP = 100;
+export const ENEMY_HITBOX_RADIUS = 2.0; // Larger than the 1.2 visual radius for easier aiming
+export const ENEMY_COLLISION_RADIUS = 1.5;
+export const MAX_ENEMIES = 15;
+export const SPAWN_DISTANCE = 60;
+export const DESPAWN_BEHIND = 20; // Enemies this far behind the player are dropped
+
+export const PROJECTILE_RADIUS = 0.4;
+export const PROJECTILE_LIFETIME_MS = 6000;
+export const HOVER_DISTANCE = 35; // How far ahead of the player hovering gunships hold
+
+export const BOSS_WAVE_INTERVAL = 5; // Every 5th generated wave is a boss wave
+export const BOSS_DISTANCE = 45; // How far ahead of the player a boss holds
+export const BOSS_MAX_ADDS = 6; // Summons stop while this many enemies are alive
+
+export const STRAFE_SPEED = 10; // Units per second at full deflection
+export const STRAFE_RESPONSE = 8; // How quickly strafing reaches its target speed (1/s)
+export const STRAFE_LIMIT_X = 12; // Half-width of the flight corridor
+export const STRAFE_MIN_Y = 0.8; // Camera height limits
+export const STRAFE_MAX_Y = 7;
+
+// Player collision box half-extents (height measured from the ground)
+export const PLAYER_HALF_WIDTH = 0.5;
+export const PLAYER_HALF_DEPTH = 0.5;
+export const PLAYER_BODY_HEIGHT = 1.8;
@@ -0,0 +1,102 @@
+import * as THREE from 'three';
+import { ENEMY_ARCHETYPES } from './archetypes';
+import { EnemyArchetypeId } from './types';
+
+// --- Enemy Looks ---
+// The three.js half of the archetype registry: one mesh builder per archetype ID.
+
+export interface EnemyModel {
+  root: THREE.Mesh; // Faces the camera; its material is swapped for the hit flash
+  spinner: THREE.Object3D | null; // Spun every frame when present
+  chargeOrb: THREE.Mesh | null; // Armed archetypes only: grows while a shot charges
+  material: THREE.Material; // The unflashed body material
+}
+
+export interface EnemyModelKit {
+  build: (archetype: EnemyArchetypeId) => EnemyModel;
+  dispose: () => void;
+}
+
+interface ModelSpec {
+  body: () => THREE.BufferGeometry;
+  emissive: number;
+  ring: number | null; // Ring color, or no ring
+}
+
+const MODEL_SPECS: Record<EnemyArchetypeId, ModelSpec> = {
+  drone: { body: () => new THREE.SphereGeometry(1.2, 16, 16), emissive: 0xff0000, ring: 0xff3300 },
+  armored: { body: () => new THREE.IcosahedronGeometry(1.2, 0), emissive: 0xff6600, ring: 0xffaa00 },
+  splitter: { body: () => new THREE.DodecahedronGeometry(1.2, 0), emissive: 0xcc00ff, ring: 0xff00ff },
+  shard: { body: () => new THREE.TetrahedronGeometry(1.2, 0), emissive: 0xcc00ff, ring: null },
+  // Tip toward the camera (lookAt points +z at the target)
+  kamikaze: { body: () => new THREE.ConeGeometry(0.9, 2.4, 8).rotateX(Math.PI / 2), emissive: 0xffee00, ring: null },
+  zigzagger: { body: () => new THREE.OctahedronGeometry(1.2, 0), emissive: 0x00ff66, ring: 0x00ffaa },
+  gunship: { body: () => new THREE.BoxGeometry(2.4, 0.7, 1.4), emissive: 0xff2266, ring: 0xff4488 }
+};
+
+// Geometries and materials are created once per archetype and shared by every instance
+export const createEnemyModelKit = (): EnemyModelKit => {
+  const ringGeometry = new THREE.TorusGeometry(1.4, 0.05, 8, 16);
+  // Orient ring correctly
+  ringGeometry.rotateX(Math.PI / 2);
+  const orbGeometry = new THREE.SphereGeometry(0.6, 12, 12);
+  const orbMaterial = new THREE.MeshBasicMaterial({
+    color: 0xff3366,
+    transparent: true,
+    opacity: 0.9,
+    blending: THREE.AdditiveBlending
+  });
+
+  const parts = new Map<EnemyArchetypeId, { body: THREE.BufferGeometry; material: THREE.Material; ring: THREE.Material | null }>();
+  const partsFor = (archetype: EnemyArchetypeId) => {
+    let cached = parts.get(archetype);
+    if (!cached) {
+      const spec = MODEL_SPECS[archetype];
+      cached = {
+        body: spec.body(),
+        material: new THREE.MeshStandardMaterial({
+          color: 0x222222,
+          emissive: spec.emissive,
+          emissiveIntensity: 0.8,
+          roughness: 0.2,
+          metalness: 0.8
+        }),
+        ring: spec.ring === null ? null : new THREE.MeshBasicMaterial({ color: spec.ring })
+      };
+      parts.set(archetype, cached);
+    }
+    return cached;
+  };
+
+  return {
+    build: (archetype) => {
+      const { body, material, ring } = partsFor(archetype);
+      const root = new THREE.Mesh(body, material);
+      root.scale.setScalar(ENEMY_ARCHETYPES[archetype].size);
+      let spinner: THREE.Object3D | null = null;
+      if (ring) {
+        spinner = new THREE.Mesh(ringGeometry, ring);
+        root.add(spinner);
+      }
+      let chargeOrb: THREE.Mesh | null = null;
+      if (ENEMY_ARCHETYPES[archetype].weapon) {
+        chargeOrb = new THREE.Mesh(orbGeometry, orbMaterial);
+        chargeOrb.position.z = 1.2; // In front, toward the camera
+        chargeOrb.visible = false;
+        root.add(chargeOrb);
+      }
+      return { root, spinner, chargeOrb, material };
+    },
+    dispose: () => {
+      ringGeometry.dispose();
+      orbGeometry.dispose();
+      orbMaterial.dispose();
+      parts.forEach(({ body, material, ring }) => {
+        body.dispose();
+        material.dispose();
+        ring?.dispose();
+      });
+      parts.clear();
+    }
+  };
+};
@@ -0,0 +1,240 @@
+import { describe, expect, it } from 'vitest';
+import { createGameEngine } from './engine';
+import { EngineInput, GameEvent, PickupKind, ScreenPoint } from './types';
+import { COMBO_HITS_PER_LEVEL, COMBO_WINDOW_MS, MAX_HEALTH, PICKUP_AIM_DELAY_MS, REPULSOR_KILL_SCORE } from './constants';
+import { BUFF_DURATIONS_MS } from './pickups';
+import { FIXED_DT } from './fixedStep';
+import { parseWaveScript } from './waveScript';
+
+const idle = (): EngineInput => ({
+  aim: { x: 0.5, y: 0.5 },
+  hands: {},
+  actions: [],
+  handActions: [],
+  strafe: { x: 0, y: 0 },
+  held: []
+});
+
+// A deterministic stand-in for a player: sweeps the aim, fires and strafes on a schedule
+const scriptedInput = (tick: number): EngineInput => ({
+  ...idle(),
+  aim: { x: 0.5 + Math.sin(tick / 40) * 0.3, y: 0.5 + Math.cos(tick / 55) * 0.2 },
+  actions: tick % 12 === 0 ? ['repulsor'] : [],
+  strafe: { x: Math.sign(Math.sin(tick / 90)), y: 0 },
+  held: tick % 400 > 300 ? ['unibeam'] : []
+});
+
+const run = (seed: number, ticks: number) => {
+  const engine = createGameEngine();
+  engine.start(seed);
+  const events = [];
+  for (let tick = 0; tick < ticks; tick++) events.push(...engine.step(FIXED_DT, scriptedInput(tick)));
+  return { world: engine.world, events };
+};
+
+describe('GameEngine', () => {
+  it('replays the same run from the same seed and inputs', () => {
+    const a = run(1234, 1800);
+    const b = run(1234, 1800);
+    expect(b.world).toEqual(a.world);
+    expect(b.events).toEqual(a.events);
+    // Sanity check that the run actually did something
+    expect(a.events.some(event => event.type === 'enemy_destroyed')).toBe(true);
+  });
+
+  it('plays a different run from a different seed', () => {
+    expect(run(1, 600).world.enemies).not.toEqual(run(2, 600).world.enemies);
+  });
+
+  it('stands still until started and while paused', () => {
+    const engine = createGameEngine();
+    engine.step(FIXED_DT, idle());
+    expect(engine.world.time).toBe(0);
+
+    engine.start(7);
+    engine.step(FIXED_DT, idle());
+    const time = engine.world.time;
+    engine.pause();
+    engine.step(FIXED_DT, idle());
+    expect(engine.world.time).toBe(time);
+  });
+});
+
+describe('waves', () => {
+  const steps = (engine: ReturnType<typeof createGameEngine>, count: number) => {
+    for (let i = 0; i < count; i++) engine.step(FIXED_DT, idle());
+  };
+
+  it('ends a kills wave once every enemy has escaped or rammed the player', () => {
+    const waveScript = parseWaveScript({
+      version: 1,
+      waves: [{
+        groups: [{ at: 0, archetype: 'drone', count: 1, formation: 'scatter', lane: 'center', times: 4, every: 1 }],
+        win: { type: 'kills', count: 3 }
+      }]
+    });
+    const engine = createGameEngine({ waveScript });
+    engine.start(3);
+    for (let i = 0; i < 60 * 60 && engine.world.wave === 1; i++) engine.step(FIXED_DT, idle());
+    expect(engine.world.wave).toBe(2);
+    expect(engine.world.waveKills).toBe(0);
+  });
+
+  it('spaces out repeats that were held back by maxAlive', () => {
+    const waveScript = parseWaveScript({
+      version: 1,
+      waves: [{
+        maxAlive: 1,
+        groups: [{ at: 0, archetype: 'drone', count: 1, formation: 'scatter', lane: 'center', times: 3, every: 0.5 }],
+        win: { type: 'timer', seconds: 60 }
+      }]
+    });
+    const engine = createGameEngine({ waveScript });
+    engine.start(4);
+    const { world } = engine;
+    steps(engine, 1);
+    expect(world.enemies).toHaveLength(1);
+    // Hold the first one out of reach while both repeats come due
+    for (let i = 0; i < 90; i++) {
+      world.enemies[0].position.z = world.player.position.z - 60;
+      steps(engine, 1);
+    }
+
+    world.enemies = [];
+    steps(engine, 1);
+    expect(world.enemies).toHaveLength(1);
+    world.enemies = [];
+    steps(engine, 1);
+    expect(world.enemies).toHaveLength(0);
+    steps(engine, 30);
+    expect(world.enemies).toHaveLength(1);
+  });
+});
+
+// An endless wave with no spawns, so tests place every enemy themselves
+const quietEngine = () => {
+  const engine = createGameEngine({
+    waveScript: parseWaveScript({ version: 1, waves: [{ groups: [], win: { type: 'timer', seconds: 1000 } }] })
+  });
+  engine.start(5);
+  return engine;
+};
+
+// A drone straight down the center aim, 20 units out
+const placeDrone = (engine: ReturnType<typeof createGameEngine>) => {
+  const { position } = engine.world.player;
+  engine.world.enemies.push({
+    id: `test-${engine.world.enemies.length}`,
+    archetype: 'drone',
+    position: { x: position.x, y: position.y, z: position.z - 20 },
+    velocity: { x: 0, y: 0, z: 0 },
+    hp: 100,
+    maxHp: 100,
+    wobbleOffset: 0,
+    speedOffset: 0,
+    speedScale: 1,
+    nextShotAt: 0,
+    fireAt: null
+  });
+};
+
+// Fires once, then lets the repulsor cool down
+const shoot = (engine: ReturnType<typeof createGameEngine>) => {
+  const events: GameEvent[] = engine.step(FIXED_DT, { ...idle(), actions: ['repulsor'] });
+  for (let i = 0; i < 15; i++) events.push(...engine.step(FIXED_DT, idle()));
+  return events;
+};
+
+describe('combo', () => {
+  it('steps up the multiplier every few hits and multiplies kill scores', () => {
+    const engine = quietEngine();
+    for (let i = 0; i < COMBO_HITS_PER_LEVEL - 1; i++) {
+      placeDrone(engine);
+      shoot(engine);
+    }
+    expect(engine.snapshot().combo.multiplier).toBe(1);
+
+    placeDrone(engine);
+    const before = engine.world.score;
+    expect(shoot(engine)).toContainEqual({ type: 'combo_up', multiplier: 2 });
+    // The hit that raises the multiplier already scores with it
+    expect(engine.world.score - before).toBe(REPULSOR_KILL_SCORE * 2);
+    expect(engine.snapshot().combo).toMatchObject({ hits: COMBO_HITS_PER_LEVEL, multiplier: 2 });
+  });
+
+  it('breaks on a miss', () => {
+    const engine = quietEngine();
+    placeDrone(engine);
+    shoot(engine);
+    expect(shoot(engine)).toContainEqual({ type: 'combo_broken', hits: 1 });
+    expect(engine.snapshot().combo.multiplier).toBe(1);
+  });
+
+  it('breaks once the combo window runs out', () => {
+    const engine = quietEngine();
+    placeDrone(engine);
+    shoot(engine);
+    const events: GameEvent[] = [];
+    for (let t = 0; t < COMBO_WINDOW_MS; t += FIXED_DT * 1000) events.push(...engine.step(FIXED_DT, idle()));
+    expect(events).toContainEqual({ type: 'combo_broken', hits: 1 });
+  });
+});
+
+describe('pickups', () => {
+  // Hangs 20 units down the ray through a screen point
+  const placePickup = (engine: ReturnType<typeof createGameEngine>, kind: PickupKind, at: ScreenPoint = { x: 0.5, y: 0.5 }) => {
+    const { origin, dir } = engine.aimRay(at);
+    const { world } = engine;
+    world.pickups.push({
+      id: `test-${world.pickups.length}`,
+      kind,
+      position: { x: origin.x + dir.x * 20, y: origin.y + dir.y * 20, z: origin.z + dir.z * 20 },
+      aimableAt: world.time + PICKUP_AIM_DELAY_MS,
+      expiresAt: world.time + 10000
+    });
+  };
+
+  const stepFor = (engine: ReturnType<typeof createGameEngine>, ms: number, input: EngineInput = idle()) => {
+    const events: GameEvent[] = [];
+    for (let t = 0; t < ms; t += FIXED_DT * 1000) events.push(...engine.step(FIXED_DT, input));
+    return events;
+  };
+
+  it('cannot be collected by aiming until the aim delay has passed', () => {
+    const engine = quietEngine();
+    placePickup(engine, 'repair');
+    stepFor(engine, PICKUP_AIM_DELAY_MS - 100);
+    expect(engine.world.pickups).toHaveLength(1);
+    stepFor(engine, 200);
+    expect(engine.world.pickups).toHaveLength(0);
+  });
+
+  it('is collected by a tracked hand cursor, and only by one', () => {
+    const engine = quietEngine();
+    const hand = { x: 0.85, y: 0.5 };
+    placePickup(engine, 'beam_charge', hand);
+    // Aimable at once; the player flies on, so a long wait would leave it off the hand's ray
+    engine.world.pickups[0].aimableAt = engine.world.time;
+    engine.step(FIXED_DT, idle());
+    expect(engine.world.pickups).toHaveLength(1);
+    engine.step(FIXED_DT, { ...idle(), hands: { right: hand } });
+    expect(engine.world.pickups).toHaveLength(0);
+  });
+
+  it('caps a repair at full armor', () => {
+    const engine = quietEngine();
+    engine.world.health = MAX_HEALTH - 5;
+    placePickup(engine, 'repair');
+    stepFor(engine, PICKUP_AIM_DELAY_MS + 100);
+    expect(engine.world.health).toBe(MAX_HEALTH);
+  });
+
+  it('starts a buff that runs out after its duration', () => {
+    const engine = quietEngine();
+    placePickup(engine, 'rapid_fire');
+    expect(stepFor(engine, PICKUP_AIM_DELAY_MS + 100)).toContainEqual(expect.objectContaining({ type: 'pickup_collected', kind: 'rapid_fire' }));
+    expect(engine.snapshot().buffs.map(buff => buff.kind)).toEqual(['rapid_fire']);
+    expect(stepFor(engine, BUFF_DURATIONS_MS.rapid_fire)).toContainEqual({ type: 'buff_expired', kind: 'rapid_fire' });
+    expect(engine.snapshot().buffs).toEqual([]);
+  });
+});
@@ -0,0 +1,978 @@
+import {
+  AIM_RANGE,
+  BEAM_AOE_RADIUS,
+  BEAM_CHARGE_MS,
+  BEAM_DURATION_MS,
+  BEAM_FAR_DAMAGE,
+  BEAM_TICK_DAMAGE,
+  BEAM_TICK_MS,
+  BOSS_DISTANCE,
+  BOSS_MAX_ADDS,
+  CAMERA_FOV,
+  CHARGED_REPULSOR_DAMAGE,
+  COMBO_HITS_PER_LEVEL,
+  COMBO_WINDOW_MS,
+  DESPAWN_BEHIND,
+  ENEMY_COLLISION_RADIUS,
+  ENEMY_HITBOX_RADIUS,
+  FLIGHT_SPEED,
+  FOCUS_TIME_SCALE,
+  HOVER_DISTANCE,
+  LONG_RANGE_BONUS,
+  LONG_RANGE_DISTANCE,
+  MAX_COMBO_MULTIPLIER,
+  MAX_ENEMIES,
+  MAX_HEALTH,
+  MULTI_KILL_BONUS,
+  NO_DAMAGE_WAVE_BONUS,
+  OVERLOAD_COOLDOWN_MS,
+  OVERLOAD_RADIUS,
+  PICKUP_AIM_DELAY_MS,
+  PICKUP_AIM_RADIUS,
+  PICKUP_DROP_CHANCE,
+  PICKUP_LIFETIME_MS,
+  PICKUP_RADIUS,
+  PICKUP_REPAIR,
+  PLAYER_BODY_HEIGHT,
+  PLAYER_HALF_DEPTH,
+  PLAYER_HALF_WIDTH,
+  PLAYER_HEIGHT,
+  PROJECTILE_LIFETIME_MS,
+  PROJECTILE_RADIUS,
+  RAPID_FIRE_COOLDOWN_SCALE,
+  REPULSOR_DAMAGE,
+  RESUME_COUNTDOWN_MS,
+  SHIELD_COOLDOWN_MS,
+  SHIELD_DURATION_MS,
+  SPAWN_DISTANCE,
+  STRAFE_LIMIT_X,
+  STRAFE_MAX_Y,
+  STRAFE_MIN_Y,
+  STRAFE_RESPONSE,
+  STRAFE_SPEED,
+  UNIBEAM_KILL_SCORE,
+  WAVE_DURATION_SEC
+} from './constants';
+import { ENEMY_ARCHETYPES, EnemyWeapon } from './archetypes';
+import { BOSSES, BOSS_HP_GROWTH, BossDefinition, HULL_DAMAGE_SCALE } from './bosses';
+import { BUFF_DURATIONS_MS, isBuff, pickPickup } from './pickups';
+import { STOCK_STATS, suitStats } from './upgrades';
+import {
+  Boss,
+  BossPart,
+  BuffKind,
+  DestroyCause,
+  EngineInput,
+  Enemy,
+  EnemyArchetypeId,
+  FiringHand,
+  Loadout,
+  GameEvent,
+  GameSnapshot,
+  Pickup,
+  ScoreBonus,
+  ScreenPoint,
+  Vec3,
+  WaveObjective,
+  World
+} from './types';
+import { Strafe } from '../input/types';
+import { Random, createStream } from './random';
+import { add, distance, lerp, normalize, raySphere, scale, sub, vec3 } from './vec3';
+import { planWave } from './waves';
+import { DEFAULT_WAVE_SCRIPT, FORMATION_SPACING, SpawnGroup, WaveScript, formationOffsets, laneOffset } from './waveScript';
+
+// --- Headless Game Engine ---
+// Owns all simulation state and advances it in fixed steps. Knows nothing about three.js,
+// React or the DOM: rendering, audio and HUD updates react to the events each step returns.
+
+export interface GameEngineOptions {
+  aspect?: number; // Viewport width / height, needed to cast aim rays
+  waveScript?: WaveScript; // DEFAULT_WAVE_SCRIPT when left out
+  loadout?: Loadout; // Suit upgrades; the stock suit when left out
+}
+
+export interface GameEngine {
+  readonly world: World;
+  // Begins a run; the same seed and inputs reproduce the same run
+  start: (seed: number) => void;
+  // Freezes a run in progress (or cancels a running resume countdown)
+  pause: () => void;
+  // Starts the resume countdown; the run continues once it has elapsed
+  resume: () => void;
+  step: (dt: number, input: EngineInput) => GameEvent[];
+  snapshot: () => GameSnapshot;
+  setAspect: (aspect: number) => void;
+  // Takes effect from the next wave that starts
+  setWaveScript: (script: WaveScript) => void;
+  // Takes effect from the next wave that starts, so upgrades bought mid-run land between waves
+  setLoadout: (loadout: Loadout) => void;
+  // World-space ray through a 0-1 screen point, as seen from the player's current view
+  aimRay: (aim: ScreenPoint) => { origin: Vec3; dir: Vec3 };
+}
+
+const ZIGZAG_FREQUENCY = 3; // Radians per second of the weave
+const ZIGZAG_SPEED = 12; // Peak sideways speed
+const SPLIT_SPREAD = 1.5; // How far apart the pieces of a split enemy start
+const HOVER_DRIFT = 0.8; // Radians per second of a hovering gunship's sideways drift
+const HOVER_SWAY = 8; // How far it drifts to each side
+const BOSS_SWAY = 6; // Bosses drift across the corridor center, not around the player
+const BOSS_DRIFT = 0.4;
+const BOSS_SPEED = 20;
+const BOSS_FIRST_VOLLEY_MS = 3000; // Grace period after a boss arrives
+
+const bossDefinition = (boss: Boss): BossDefinition => BOSSES.find(b => b.id === boss.definition) ?? BOSSES[0];
+
+const createWorld = (seed: number): World => ({
+  status: 'menu',
+  seed,
+  time: 0,
+  resumeInMs: null,
+  health: MAX_HEALTH,
+  score: 0,
+  stats: STOCK_STATS,
+  wave: 1,
+  waveTime: 0,
+  wavePlan: { groups: [], win: { type: 'timer', seconds: WAVE_DURATION_SEC } }, // Replaced when the run starts
+  groupSpawns: [],
+  groupSpawnedAt: [],
+  waveKills: 0,
+  beamCharges: STOCK_STATS.maxBeamCharges,
+  beamRegenMs: 0,
+  beamChargeMs: 0,
+  beamUntil: 0,
+  nextBeamTickAt: 0,
+  beamTarget: null,
+  lastOverloadTime: -Infinity,
+  combo: 0,
+  comboExpiresAt: 0,
+  waveDamaged: false,
+  shieldUntil: 0,
+  lastShieldTime: -Infinity,
+  lastShotTime: { primary: -Infinity, left: -Infinity, right: -Infinity },
+  player: { position: vec3(0, PLAYER_HEIGHT, 0), velocity: vec3(), yaw: 0, pitch: 0 },
+  enemies: [],
+  nextEnemyId: 0,
+  projectiles: [],
+  nextProjectileId: 0,
+  pickups: [],
+  nextPickupId: 0,
+  buffs: [],
+  boss: null,
+  bossesDefeated: 0
+});
+
+export const createGameEngine = ({ aspect = 16 / 9, waveScript = DEFAULT_WAVE_SCRIPT, loadout = {} }: GameEngineOptions = {}): GameEngine => {
+  const world = createWorld(0);
+  let random: Random = createStream(0, 'gameplay');
+  let viewAspect = aspect;
+  let script = waveScript;
+  let suit = loadout;
+  let events: GameEvent[] = [];
+
+  // Matches a three.js PerspectiveCamera with rotation order XYZ (pitch, then yaw)
+  const aimRay = (aim: ScreenPoint) => {
+    const { position, yaw, pitch } = world.player;
+    const tanHalf = Math.tan((CAMERA_FOV * Math.PI) / 360);
+    const cx = (aim.x * 2 - 1) * tanHalf * viewAspect;
+    const cy = (1 - aim.y * 2) * tanHalf;
+    const cz = -1;
+
+    // Yaw about Y, then pitch about X
+    const yx = cx * Math.cos(yaw) + cz * Math.sin(yaw);
+    const yz = -cx * Math.sin(yaw) + cz * Math.cos(yaw);
+    const dir = normalize({
+      x: yx,
+      y: cy * Math.cos(pitch) - yz * Math.sin(pitch),
+      z: cy * Math.sin(pitch) + yz * Math.cos(pitch)
+    });
+    return { origin: { ...position }, dir };
+  };
+
+  const removeEnemy = (enemy: Enemy) => {
+    const index = world.enemies.indexOf(enemy);
+    if (index !== -1) world.enemies.splice(index, 1);
+  };
+
+  // --- Scoring ---
+  // Consecutive hits build a combo that multiplies every point scored, bonuses included. A
+  // miss, a hit taken or COMBO_WINDOW_MS without a hit breaks it.
+
+  const comboMultiplier = () => Math.min(MAX_COMBO_MULTIPLIER, 1 + Math.floor(world.combo / COMBO_HITS_PER_LEVEL));
+
+  const award = (points: number) => {
+    const total = points * comboMultiplier();
+    world.score += total;
+    return total;
+  };
+
+  const awardBonus = (bonus: ScoreBonus, points: number, position: Vec3) => {
+    events.push({ type: 'score_bonus', bonus, points: award(points), position: { ...position } });
+  };
+
+  const registerHits = (hits: number) => {
+    if (hits === 0) return;
+    const before = comboMultiplier();
+    world.combo += hits;
+    world.comboExpiresAt = world.time + COMBO_WINDOW_MS;
+    if (comboMultiplier() > before) events.push({ type: 'combo_up', multiplier: comboMultiplier() });
+  };
+
+  const breakCombo = () => {
+    if (world.combo === 0) return;
+    events.push({ type: 'combo_broken', hits: world.combo });
+    world.combo = 0;
+  };
+
+  // Kills from a single shot, beam tick or overload; shown at the last of them
+  const rewardMultiKill = (kills: Enemy[]) => {
+    if (kills.length < 2) return;
+    awardBonus('multi_kill', MULTI_KILL_BONUS * (kills.length - 1), kills[kills.length - 1].position);
+  };
+
+  // --- Pickups & Buffs ---
+
+  const buffActive = (kind: BuffKind) => world.buffs.some(buff => buff.kind === kind);
+
+  const shielded = () => world.time < world.shieldUntil || buffActive('shield');
+
+  const dropPickup = (position: Vec3) => {
+    if (random() >= PICKUP_DROP_CHANCE) return;
+    world.pickups.push({
+      id: `pickup-${world.nextPickupId++}`,
+      kind: pickPickup(random()),
+      position: { ...position },
+      aimableAt: world.time + PICKUP_AIM_DELAY_MS,
+      expiresAt: world.time + PICKUP_LIFETIME_MS
+    });
+  };
+
+  const collectPickup = (pickup: Pickup) => {
+    world.pickups.splice(world.pickups.indexOf(pickup), 1);
+    const { kind } = pickup;
+    if (kind === 'repair') world.health = Math.min(MAX_HEALTH, world.health + PICKUP_REPAIR);
+    else if (kind === 'beam_charge') world.beamCharges = Math.min(world.stats.maxBeamCharges, world.beamCharges + 1);
+    else if (isBuff(kind)) {
+      const durationMs = BUFF_DURATIONS_MS[kind];
+      world.buffs = world.buffs.filter(buff => buff.kind !== kind);
+      world.buffs.push({ kind, until: world.time + durationMs, durationMs });
+    }
+    events.push({ type: 'pickup_collected', id: pickup.id, kind, position: { ...pickup.position } });
+  };
+
+  // Collected by flying through them or by passing any cursor over them
+  const updatePickups = (input: EngineInput) => {
+    const rays = [input.aim, ...Object.values(input.hands)].map(aimRay);
+    for (let i = world.pickups.length - 1; i >= 0; i--) {
+      const pickup = world.pickups[i];
+      const aimedAt = world.time >= pickup.aimableAt && rays.some(({ origin, dir }) => {
+        const t = raySphere(origin, dir, pickup.position, PICKUP_AIM_RADIUS);
+        return t !== null && t <= AIM_RANGE;
+      });
+      if (aimedAt || touchesPlayer(pickup.position, PICKUP_RADIUS)) collectPickup(pickup);
+      else if (world.time >= pickup.expiresAt || pickup.position.z > world.player.position.z + DESPAWN_BEHIND) {
+        world.pickups.splice(i, 1);
+      }
+    }
+  };
+
+  const updateBuffs = () => {
+    world.buffs = world.buffs.filter(buff => {
+      if (world.time < buff.until) return true;
+      events.push({ type: 'buff_expired', kind: buff.kind });
+      return false;
+    });
+  };
+
+  const destroyEnemy = (enemy: Enemy, points: number, cause: DestroyCause) => {
+    removeEnemy(enemy);
+    award(points);
+    if (cause !== 'collision') {
+      world.waveKills++;
+      dropPickup(enemy.position);
+    }
+    events.push({ type: 'enemy_destroyed', id: enemy.id, archetype: enemy.archetype, position: { ...enemy.position }, cause });
+    const aimed = cause === 'repulsor' || cause === 'unibeam';
+    if (aimed && distance(enemy.position, world.player.position) >= LONG_RANGE_DISTANCE) {
+      awardBonus('long_range', LONG_RANGE_BONUS, enemy.position);
+    }
+  };
+
+  const spawnEnemy = (
+    archetype: EnemyArchetypeId,
+    position: Vec3,
+    velocity: Vec3 = vec3(),
+    traits: Partial<Pick<Enemy, 'speedOffset' | 'speedScale'>> = {}
+  ) => {
+    const { hp } = ENEMY_ARCHETYPES[archetype];
+    world.enemies.push({
+      id: `enemy-${world.nextEnemyId++}`,
+      archetype,
+      position,
+      velocity,
+      hp,
+      maxHp: hp,
+      wobbleOffset: random() * Math.PI * 2,
+      speedOffset: random() * 2,
+      speedScale: 1,
+      // Armed enemies start their cooldowns staggered so a wave does not fire in unison
+      nextShotAt: world.time + random() * (ENEMY_ARCHETYPES[archetype].weapon?.cooldownMs ?? 0),
+      fireAt: null,
+      ...traits
+    });
+  };
+
+  const splitEnemy = (enemy: Enemy) => {
+    const split = ENEMY_ARCHETYPES[enemy.archetype].splitsInto;
+    if (!split) return;
+    for (let i = 0; i < split.count; i++) {
+      const angle = (i / split.count) * Math.PI * 2;
+      const offset = vec3(Math.cos(angle) * SPLIT_SPREAD, Math.sin(angle) * SPLIT_SPREAD, 0);
+      spawnEnemy(split.archetype, add(enemy.position, offset), enemy.velocity, { speedScale: enemy.speedScale });
+    }
+  };
+
+  const reactToHit = (enemy: Enemy, shotDir: Vec3) => {
+    const reaction = ENEMY_ARCHETYPES[enemy.archetype].hitReaction;
+    if (reaction.type === 'stagger') enemy.position = add(enemy.position, scale(shotDir, reaction.distance));
+    else if (reaction.type === 'dodge') enemy.wobbleOffset += Math.PI;
+  };
+
+  // --- Combat ---
+
+  // A charged shot (pinch-and-hold) skips the cooldown, pierces every drone on the ray
+  // and hits harder
+  const fireRepulsor = (hand: FiringHand, aim: ScreenPoint, charged: boolean) => {
+    const cooldown = world.stats.repulsorCooldownMs * (buffActive('rapid_fire') ? RAPID_FIRE_COOLDOWN_SCALE : 1);
+    if (!charged && world.time - world.lastShotTime[hand] < cooldown) return;
+    world.lastShotTime[hand] = world.time;
+
+    const { origin, dir } = aimRay(aim);
+    const hits = world.enemies
+      .map(enemy => ({
+        enemy,
+        t: raySphere(origin, dir, enemy.position, ENEMY_HITBOX_RADIUS * ENEMY_ARCHETYPES[enemy.archetype].size + world.stats.aimAssist)
+      }))
+      .filter((hit): hit is { enemy: Enemy; t: number } => hit.t !== null)
+      .sort((a, b) => a.t - b.t);
+    const bossHit = rayBoss(origin, dir);
+    // An uncharged shot stops at whatever it meets first, drone or boss
+    const bossFirst = bossHit !== null && (hits.length === 0 || bossHit.t < hits[0].t);
+    const struck = charged ? hits : bossFirst ? [] : hits.slice(0, 1);
+    const bossStruck = bossHit !== null && (charged || bossFirst) ? bossHit : null;
+    const reach = charged ? AIM_RANGE : bossStruck ? bossStruck.t : struck.length > 0 ? struck[0].t : AIM_RANGE;
+
+    const hitCount = struck.length + (bossStruck ? 1 : 0);
+    events.push({
+      type: 'shot',
+      hand,
+      charged,
+      target: add(origin, scale(dir, reach)),
+      hits: hitCount
+    });
+    if (hitCount > 0) registerHits(hitCount);
+    else breakCombo();
+
+    if (bossStruck) shootBoss(bossStruck.part, charged ? CHARGED_REPULSOR_DAMAGE : REPULSOR_DAMAGE);
+
+    struck.forEach(({ enemy }) => {
+      const dmg = charged ? CHARGED_REPULSOR_DAMAGE : REPULSOR_DAMAGE;
+      enemy.hp -= dmg;
+      events.push({ type: 'enemy_damaged', id: enemy.id, position: { ...enemy.position }, amount: dmg, crit: charged });
+      if (enemy.hp > 0) {
+        reactToHit(enemy, dir);
+        return;
+      }
+      destroyEnemy(enemy, ENEMY_ARCHETYPES[enemy.archetype].score, 'repulsor');
+      splitEnemy(enemy);
+    });
+    rewardMultiKill(struck.map(({ enemy }) => enemy).filter(enemy => enemy.hp <= 0));
+  };
+
+  // Full damage at the muzzle, falling off linearly to BEAM_FAR_DAMAGE at AIM_RANGE
+  const beamDamageAt = (t: number) =>
+    Math.round(BEAM_TICK_DAMAGE * (1 - (1 - BEAM_FAR_DAMAGE) * Math.min(1, t / AIM_RANGE)));
+
+  // The firing beam follows the aim every step and damages everything near its line once per tick
+  const sweepUnibeam = (aim: ScreenPoint) => {
+    const { origin, dir } = aimRay(aim);
+    world.beamTarget = add(origin, scale(dir, AIM_RANGE));
+    if (world.time < world.nextBeamTickAt) return;
+    world.nextBeamTickAt += BEAM_TICK_MS;
+
+    const caught = world.enemies
+      .map(enemy => ({ enemy, t: raySphere(origin, dir, enemy.position, BEAM_AOE_RADIUS) }))
+      .filter((hit): hit is { enemy: Enemy; t: number } => hit.t !== null && hit.t <= AIM_RANGE);
+    const bossHit = rayBoss(origin, dir, BEAM_AOE_RADIUS);
+    const bossCaught = bossHit !== null && bossHit.t <= AIM_RANGE;
+    // A tick that sweeps past nothing is not a miss
+    registerHits(caught.length + (bossCaught ? 1 : 0));
+
+    caught.forEach(({ enemy, t }) => {
+      const dmg = beamDamageAt(t);
+      enemy.hp -= dmg;
+      events.push({ type: 'enemy_damaged', id: enemy.id, position: { ...enemy.position }, amount: dmg, crit: false });
+      if (enemy.hp > 0) return;
+      destroyEnemy(enemy, UNIBEAM_KILL_SCORE, 'unibeam');
+      splitEnemy(enemy);
+    });
+    rewardMultiKill(caught.map(({ enemy }) => enemy).filter(enemy => enemy.hp <= 0));
+
+    // Bosses resist the beam
+    const boss = world.boss;
+    if (boss && bossHit && bossCaught) shootBoss(bossHit.part, beamDamageAt(bossHit.t) * bossDefinition(boss).unibeamDamage);
+  };
+
+  // Charges while held and fires on reaching BEAM_CHARGE_MS; letting go early costs nothing.
+  // Held through the whole beam, it starts charging the next one as soon as this one ends.
+  const updateUnibeam = (held: boolean, aim: ScreenPoint, dt: number) => {
+    if (world.time < world.beamUntil) {
+      sweepUnibeam(aim);
+      return;
+    }
+    world.beamTarget = null;
+    if (!held || world.beamCharges <= 0) {
+      world.beamChargeMs = 0;
+      return;
+    }
+
+    if (world.beamChargeMs === 0) events.push({ type: 'unibeam_charging' });
+    world.beamChargeMs += dt * 1000;
+    if (world.beamChargeMs < BEAM_CHARGE_MS) return;
+
+    world.beamChargeMs = 0;
+    world.beamCharges--;
+    world.beamUntil = world.time + BEAM_DURATION_MS;
+    world.nextBeamTickAt = world.time;
+    const { origin, dir } = aimRay(aim);
+    events.push({ type: 'unibeam', target: add(origin, scale(dir, AIM_RANGE)) });
+    sweepUnibeam(aim);
+  };
+
+  // 360° shockwave: everything near the player goes, wherever the aim points
+  const triggerOverload = () => {
+    if (world.time - world.lastOverloadTime < OVERLOAD_COOLDOWN_MS) return;
+    world.lastOverloadTime = world.time;
+
+    const caught = world.enemies.filter(enemy => distance(enemy.position, world.player.position) < OVERLOAD_RADIUS);
+    events.push({ type: 'overload', position: { ...world.player.position }, kills: caught.length });
+    registerHits(caught.length);
+    caught.forEach(enemy => {
+      events.push({ type: 'enemy_damaged', id: enemy.id, position: { ...enemy.position }, amount: 9999, crit: true });
+      destroyEnemy(enemy, UNIBEAM_KILL_SCORE, 'overload');
+    });
+    rewardMultiKill(caught);
+
+    // Bosses shrug most of it off
+    const boss = world.boss;
+    if (boss && distance(boss.position, world.player.position) < OVERLOAD_RADIUS) {
+      damageBoss(boss, boss.parts[0], bossDefinition(boss).overloadDamage * boss.maxHp, true);
+    }
+  };
+
+  const activateShield = () => {
+    if (world.time - world.lastShieldTime < SHIELD_COOLDOWN_MS) return;
+    world.lastShieldTime = world.time;
+    world.shieldUntil = world.time + SHIELD_DURATION_MS;
+    events.push({ type: 'shield' });
+  };
+
+  const applyInput = (input: EngineInput) => {
+    input.actions.forEach(action => {
+      if (action === 'repulsor') fireRepulsor('primary', input.aim, false);
+      else if (action === 'charged_repulsor') fireRepulsor('primary', input.aim, true);
+      else if (action === 'overload') triggerOverload();
+      else if (action === 'shield') activateShield();
+    });
+    input.handActions.forEach(({ side, action }) => {
+      const aim = input.hands[side] ?? input.aim;
+      if (action === 'repulsor') fireRepulsor(side, aim, false);
+      else if (action === 'charged_repulsor') fireRepulsor(side, aim, true);
+    });
+  };
+
+  // --- Simulation ---
+
+  const updatePlayer = (dt: number, aim: ScreenPoint, strafe: Strafe) => {
+    const player = world.player;
+    player.position.z -= FLIGHT_SPEED * dt;
+
+    // Strafing eases toward the held direction and stops dead at the corridor walls
+    const response = Math.min(1, dt * STRAFE_RESPONSE);
+    player.velocity.x += (strafe.x * STRAFE_SPEED - player.velocity.x) * response;
+    player.velocity.y += (strafe.y * STRAFE_SPEED - player.velocity.y) * response;
+    const x = player.position.x + player.velocity.x * dt;
+    const y = player.position.y + player.velocity.y * dt;
+    player.position.x = Math.min(STRAFE_LIMIT_X, Math.max(-STRAFE_LIMIT_X, x));
+    player.position.y = Math.min(STRAFE_MAX_Y, Math.max(STRAFE_MIN_Y, y));
+    if (player.position.x !== x) player.velocity.x = 0;
+    if (player.position.y !== y) player.velocity.y = 0;
+
+    // Parallax aiming
+    const targetYaw = (0.5 - aim.x) * 0.6;
+    const targetPitch = (0.5 - aim.y) * 0.4;
+    player.yaw += (targetYaw - player.yaw) * dt * 5;
+    player.pitch += (targetPitch - player.pitch) * dt * 5;
+  };
+
+  const regenerateBeam = (dt: number) => {
+    const { maxBeamCharges, beamRegenMs } = world.stats;
+    if (world.beamCharges >= maxBeamCharges) {
+      world.beamRegenMs = 0;
+      return;
+    }
+    world.beamRegenMs += dt * 1000;
+    if (world.beamRegenMs >= beamRegenMs) {
+      world.beamCharges = Math.min(world.beamCharges + 1, maxBeamCharges);
+      world.beamRegenMs = 0;
+    }
+  };
+
+  const beginWave = (wave: number) => {
+    world.stats = suitStats(suit);
+    world.wave = wave;
+    world.waveTime = 0;
+    world.wavePlan = planWave(script, wave, random);
+    world.groupSpawns = world.wavePlan.groups.map(() => 0);
+    world.groupSpawnedAt = world.wavePlan.groups.map(() => 0);
+    world.waveKills = 0;
+    const { win } = world.wavePlan;
+    if (win.type === 'boss') spawnBoss(win.boss);
+  };
+
+  const startWave = (wave: number) => {
+    if (!world.waveDamaged) awardBonus('no_damage', NO_DAMAGE_WAVE_BONUS, add(world.player.position, vec3(0, 1, -8)));
+    world.waveDamaged = false;
+    events.push({ type: 'wave', wave });
+    beginWave(wave);
+  };
+
+  const groupsLeft = () =>
+    world.wavePlan.groups.reduce((sum, group, i) => sum + group.count * ((group.times ?? 1) - world.groupSpawns[i]), 0);
+
+  const objective = (): WaveObjective => {
+    const { win } = world.wavePlan;
+    switch (win.type) {
+      case 'timer':
+        return { type: 'timer', secondsLeft: Math.max(0, win.seconds - world.waveTime) };
+      case 'kills':
+        return { type: 'kills', remaining: Math.max(0, win.count - world.waveKills) };
+      case 'clear':
+        return { type: 'clear', remaining: world.enemies.length + groupsLeft() };
+      case 'boss':
+        return { type: 'boss' };
+    }
+  };
+
+  // Boss waves never end here; defeatBoss starts the next wave. A kills wave also ends once
+  // nothing is left to spawn or fight, since enemies that escape or ram the player never count
+  const advanceWave = (dt: number) => {
+    world.waveTime += dt;
+    const progress = objective();
+    const spent = groupsLeft() === 0 && world.enemies.length === 0;
+    const won = progress.type === 'timer' ? progress.secondsLeft <= 0 :
+      progress.type === 'kills' ? progress.remaining <= 0 || spent :
+      progress.type === 'clear' ? progress.remaining <= 0 : false;
+    if (won) startWave(world.wave + 1);
+  };
+
+  const spawnGroup = ({ archetype, count, formation, lane, spacing = FORMATION_SPACING, speed = 1 }: SpawnGroup) => {
+    const { position } = world.player;
+    const entry = laneOffset(lane, random);
+    const anchor = vec3(position.x + entry.x, position.y + entry.y, position.z - SPAWN_DISTANCE);
+    // One speed roll for the whole group, so the formation holds its shape on the way in
+    const speedOffset = random() * 2;
+    formationOffsets(formation, count, spacing, random).forEach(offset => {
+      spawnEnemy(archetype, add(anchor, offset), vec3(), { speedOffset, speedScale: speed });
+    });
+  };
+
+  // Groups spawn at their scripted times; a due group waits while it would overrun maxAlive.
+  // Repeats count from the last actual spawn, so a held-back group does not burst out at once.
+  const spawnEnemies = () => {
+    const { groups, maxAlive = MAX_ENEMIES } = world.wavePlan;
+    groups.forEach((group, i) => {
+      const spawned = world.groupSpawns[i];
+      if (spawned >= (group.times ?? 1)) return;
+      const dueAt = spawned === 0 ? group.at : world.groupSpawnedAt[i] + (group.every ?? 0);
+      if (world.waveTime < dueAt) return;
+      if (world.enemies.length + group.count > maxAlive) return;
+      world.groupSpawns[i]++;
+      world.groupSpawnedAt[i] = world.waveTime;
+      spawnGroup(group);
+    });
+  };
+
+  // Whether a sphere overlaps the player's body box, which moves with strafing
+  const touchesPlayer = (center: Vec3, radius: number) => {
+    const { position } = world.player;
+    const feet = position.y - PLAYER_HEIGHT;
+    return Math.abs(center.x - position.x) < PLAYER_HALF_WIDTH + radius &&
+      Math.abs(center.z - position.z) < PLAYER_HALF_DEPTH + radius &&
+      center.y - feet < PLAYER_BODY_HEIGHT + radius && center.y - feet > -radius;
+  };
+
+  const damagePlayer = (amount: number, position: Vec3) => {
+    world.health = Math.max(0, world.health - Math.round(amount * world.stats.damageTaken));
+    world.waveDamaged = true;
+    breakCombo();
+    events.push({ type: 'player_hit', position, health: world.health });
+    if (world.health <= 0) {
+      world.status = 'gameover';
+      events.push({ type: 'gameover', score: world.score });
+    }
+  };
+
+  const hitPlayer = (enemy: Enemy) => {
+    const { position } = world.player;
+    if (shielded()) {
+      // Deflector absorbs the impact
+      events.push({ type: 'shield_absorb', position: { ...enemy.position } });
+      destroyEnemy(enemy, 0, 'shield');
+      return;
+    }
+
+    destroyEnemy(enemy, 0, 'collision');
+    damagePlayer(ENEMY_ARCHETYPES[enemy.archetype].damage, add(position, vec3(0, 0, -1)));
+  };
+
+  // Where the enemy wants to be heading this step, at what speed
+  const steer = (enemy: Enemy, dt: number): Vec3 => {
+    const { position } = world.player;
+    const type = ENEMY_ARCHETYPES[enemy.archetype];
+    const approachSpeed = (5.0 + world.wave * 0.3 + enemy.speedOffset) * type.speed * enemy.speedScale;
+
+    if (type.steering === 'hover') {
+      const station = vec3(
+        position.x + Math.sin((world.time / 1000) * HOVER_DRIFT + enemy.wobbleOffset) * HOVER_SWAY,
+        position.y + 2,
+        position.z - HOVER_DISTANCE
+      );
+      const toStation = sub(station, enemy.position);
+      // Slows into the station; updateEnemies adds the forward flight that keeps pace with the player
+      return scale(normalize(toStation), Math.min(approachSpeed, distance(station, enemy.position) * 2));
+    }
+
+    const desiredDir = normalize(sub(vec3(position.x, position.y - PLAYER_HEIGHT + 1.0, position.z), enemy.position));
+    const distToPlayer = distance(enemy.position, position);
+    const steerFactor = distToPlayer < 20 && type.steering !== 'dive' ? 0.5 * dt : 5.0 * dt;
+
+    const currentDir = normalize(enemy.velocity);
+    const heading = currentDir.x === 0 && currentDir.y === 0 && currentDir.z === 0
+      ? desiredDir
+      : normalize(lerp(currentDir, desiredDir, steerFactor));
+    return scale(heading, approachSpeed);
+  };
+
+  // Aimed at the chest, where the player is when the shot leaves; strafing dodges it
+  const aimAtPlayer = (from: Vec3) => {
+    const { position } = world.player;
+    return normalize(sub(vec3(position.x, position.y - 0.5, position.z), from));
+  };
+
+  const launchProjectile = (from: Vec3, dir: Vec3, speed: number, damage: number) => {
+    world.projectiles.push({
+      id: `projectile-${world.nextProjectileId++}`,
+      position: { ...from },
+      velocity: scale(dir, speed),
+      damage,
+      expiresAt: world.time + PROJECTILE_LIFETIME_MS
+    });
+  };
+
+  const fireProjectile = (enemy: Enemy, weapon: EnemyWeapon) => {
+    launchProjectile(enemy.position, aimAtPlayer(enemy.position), weapon.projectileSpeed, weapon.damage);
+  };
+
+  const updateWeapon = (enemy: Enemy, weapon: EnemyWeapon) => {
+    if (enemy.fireAt !== null) {
+      if (world.time < enemy.fireAt) return;
+      fireProjectile(enemy, weapon);
+      enemy.fireAt = null;
+      enemy.nextShotAt = world.time + weapon.cooldownMs;
+      return;
+    }
+    const { position } = world.player;
+    const ahead = enemy.position.z < position.z;
+    if (world.time >= enemy.nextShotAt && ahead && distance(enemy.position, position) <= weapon.range) {
+      enemy.fireAt = world.time + weapon.chargeMs;
+      events.push({ type: 'enemy_charging', id: enemy.id, position: { ...enemy.position } });
+    }
+  };
+
+  // timeScale slows the enemies' own movement (the focus buff); hovering enemies still keep
+  // pace with the player at full speed, or focus would leave them behind
+  const updateEnemies = (dt: number, timeScale: number) => {
+    const { position } = world.player;
+    const hostileDt = dt * timeScale;
+
+    for (let i = world.enemies.length - 1; i >= 0; i--) {
+      const enemy = world.enemies[i];
+      const type = ENEMY_ARCHETYPES[enemy.archetype];
+
+      enemy.velocity = steer(enemy, hostileDt);
+      enemy.position = add(enemy.position, scale(enemy.velocity, hostileDt));
+      if (type.steering === 'hover') enemy.position = add(enemy.position, vec3(0, 0, -FLIGHT_SPEED * dt));
+      if (type.steering === 'zigzag') {
+        // The weave is added on top of the velocity so it never bends the seek heading
+        const weave = Math.sin((world.time / 1000) * ZIGZAG_FREQUENCY + enemy.wobbleOffset) * ZIGZAG_SPEED;
+        enemy.position = add(enemy.position, vec3(weave * hostileDt, 0, 0));
+      }
+      if (type.weapon) updateWeapon(enemy, type.weapon);
+
+      if (touchesPlayer(enemy.position, ENEMY_COLLISION_RADIUS * type.size)) {
+        hitPlayer(enemy);
+        if (world.status !== 'playing') return;
+      } else if (enemy.position.z > position.z + DESPAWN_BEHIND) {
+        removeEnemy(enemy);
+      }
+    }
+  };
+
+  // --- Bosses ---
+
+  // Without an ID, bosses take turns in the order they are defined
+  const spawnBoss = (definitionId?: string) => {
+    const definition = BOSSES.find(b => b.id === definitionId) ?? BOSSES[world.bossesDefeated % BOSSES.length];
+    const maxHp = definition.hp * (1 + BOSS_HP_GROWTH * world.bossesDefeated);
+    const id = `boss-${world.nextEnemyId++}`;
+    const { position } = world.player;
+    world.boss = {
+      id,
+      definition: definition.id,
+      position: vec3(0, position.y + 4, position.z - SPAWN_DISTANCE - 30),
+      hp: maxHp,
+      maxHp,
+      phase: 0,
+      immuneUntil: 0,
+      nextVolleyAt: world.time + BOSS_FIRST_VOLLEY_MS,
+      fireAt: null,
+      nextSummonAt: world.time + (definition.phases[0].summon?.everyMs ?? 0),
+      parts: definition.parts.map(part => ({
+        id: `${id}-${part.id}`,
+        offset: { ...part.offset },
+        radius: part.radius,
+        weakPoint: part.weakPoint,
+        hp: part.hp,
+        maxHp: part.hp
+      }))
+    };
+    events.push({ type: 'boss_spawned', id, label: definition.label });
+  };
+
+  const bossImmune = (boss: Boss) => world.time < boss.immuneUntil;
+
+  // Nearest intact part on the ray; a margin widens every part, for the unibeam
+  const rayBoss = (origin: Vec3, dir: Vec3, margin = 0): { part: BossPart; t: number } | null => {
+    const boss = world.boss;
+    if (!boss) return null;
+    let nearest: { part: BossPart; t: number } | null = null;
+    boss.parts.forEach(part => {
+      if (part.weakPoint && part.hp <= 0) return;
+      const t = raySphere(origin, dir, add(boss.position, part.offset), part.radius + margin);
+      if (t !== null && (!nearest || t < nearest.t)) nearest = { part, t };
+    });
+    return nearest;
+  };
+
+  const defeatBoss = (boss: Boss) => {
+    award(bossDefinition(boss).score);
+    world.boss = null;
+    world.bossesDefeated++;
+    events.push({ type: 'boss_defeated', id: boss.id, position: { ...boss.position } });
+    startWave(world.wave + 1);
+  };
+
+  // Health is split evenly between the phases and a phase never spills into the next: the
+  // killing blow of a phase starts the next one, with an immunity window and fresh weak points
+  const damageBoss = (boss: Boss, part: BossPart, amount: number, crit: boolean) => {
+    const dealt = bossImmune(boss) ? 0 : amount;
+    const position = add(boss.position, part.offset);
+    events.push({ type: 'enemy_damaged', id: part.id, position, amount: Math.round(dealt), crit: crit && dealt > 0 });
+    if (dealt === 0) return;
+
+    const definition = bossDefinition(boss);
+    const floor = boss.maxHp * (1 - (boss.phase + 1) / definition.phases.length);
+    boss.hp = Math.max(floor, boss.hp - dealt);
+    if (boss.hp > floor) return;
+
+    if (boss.phase + 1 >= definition.phases.length) {
+      defeatBoss(boss);
+      return;
+    }
+    boss.phase++;
+    boss.immuneUntil = world.time + definition.immunityMs;
+    boss.fireAt = null;
+    boss.parts.forEach(p => { p.hp = p.maxHp; });
+    events.push({ type: 'boss_phase', id: boss.id, phase: boss.phase, position: { ...boss.position } });
+  };
+
+  const shootBoss = (part: BossPart, amount: number) => {
+    const boss = world.boss;
+    if (!boss) return;
+    if (part.weakPoint && !bossImmune(boss)) {
+      part.hp = Math.max(0, part.hp - amount);
+      if (part.hp === 0) events.push({ type: 'boss_part_destroyed', id: part.id, position: add(boss.position, part.offset) });
+    }
+    damageBoss(boss, part, part.weakPoint ? amount : amount * HULL_DAMAGE_SCALE, part.weakPoint);
+  };
+
+  // Like updateEnemies, timeScale slows everything but keeping pace with the player
+  const updateBoss = (dt: number, timeScale: number) => {
+    const boss = world.boss;
+    if (!boss) return;
+    const { position } = world.player;
+    const phase = bossDefinition(boss).phases[boss.phase];
+
+    const station = vec3(
+      Math.sin((world.time / 1000) * BOSS_DRIFT) * BOSS_SWAY,
+      position.y + 4,
+      position.z - BOSS_DISTANCE
+    );
+    const closing = scale(normalize(sub(station, boss.position)), Math.min(BOSS_SPEED, distance(station, boss.position) * 2));
+    boss.position = add(boss.position, add(scale(closing, dt * timeScale), vec3(0, 0, -FLIGHT_SPEED * dt)));
+
+    // Holds fire while immune
+    if (bossImmune(boss)) return;
+
+    const { volley, summon } = phase;
+    if (boss.fireAt !== null && world.time >= boss.fireAt) {
+      const aim = aimAtPlayer(boss.position);
+      for (let i = 0; i < volley.shots; i++) {
+        // Fan out around the aimed shot, turning about the vertical axis
+        const angle = (i - (volley.shots - 1) / 2) * volley.spread;
+        const dir = vec3(
+          aim.x * Math.cos(angle) + aim.z * Math.sin(angle),
+          aim.y,
+          -aim.x * Math.sin(angle) + aim.z * Math.cos(angle)
+        );
+        launchProjectile(boss.position, dir, volley.projectileSpeed, volley.damage);
+      }
+      boss.fireAt = null;
+      boss.nextVolleyAt = world.time + volley.cooldownMs;
+    } else if (boss.fireAt === null && world.time >= boss.nextVolleyAt) {
+      boss.fireAt = world.time + volley.chargeMs;
+      events.push({ type: 'enemy_charging', id: boss.id, position: { ...boss.position } });
+    }
+
+    if (summon && world.time >= boss.nextSummonAt) {
+      boss.nextSummonAt = world.time + summon.everyMs;
+      if (world.enemies.length < BOSS_MAX_ADDS) {
+        spawnEnemy(summon.archetype, add(boss.position, vec3((random() - 0.5) * 10, -2, 2)));
+      }
+    }
+  };
+
+  const updateProjectiles = (dt: number) => {
+    const { position } = world.player;
+
+    for (let i = world.projectiles.length - 1; i >= 0; i--) {
+      const projectile = world.projectiles[i];
+      projectile.position = add(projectile.position, scale(projectile.velocity, dt));
+
+      if (touchesPlayer(projectile.position, PROJECTILE_RADIUS)) {
+        world.projectiles.splice(i, 1);
+        if (shielded()) {
+          events.push({ type: 'shield_absorb', position: { ...projectile.position } });
+          continue;
+        }
+        damagePlayer(projectile.damage, { ...projectile.position });
+        if (world.status !== 'playing') return;
+      } else if (world.time >= projectile.expiresAt || projectile.position.z > position.z + DESPAWN_BEHIND) {
+        world.projectiles.splice(i, 1);
+      }
+    }
+  };
+
+  return {
+    world,
+    start: (seed) => {
+      Object.assign(world, createWorld(seed), { status: 'playing' });
+      random = createStream(seed, 'gameplay');
+      beginWave(1);
+      world.beamCharges = world.stats.maxBeamCharges;
+    },
+    pause: () => {
+      if (world.status !== 'playing' && world.status !== 'paused') return;
+      world.status = 'paused';
+      world.resumeInMs = null;
+    },
+    resume: () => {
+      if (world.status === 'paused' && world.resumeInMs === null) world.resumeInMs = RESUME_COUNTDOWN_MS;
+    },
+    step: (dt, input) => {
+      events = [];
+      // Paused runs only count down; world.time (and with it every cooldown and the wave timer) stands still
+      if (world.status === 'paused' && world.resumeInMs !== null) {
+        world.resumeInMs -= dt * 1000;
+        if (world.resumeInMs <= 0) {
+          world.status = 'playing';
+          world.resumeInMs = null;
+          events.push({ type: 'resume' });
+        }
+        return events;
+      }
+      if (world.status !== 'playing') return events;
+
+      world.time += dt * 1000;
+      if (world.combo > 0 && world.time >= world.comboExpiresAt) breakCombo();
+      updateBuffs();
+      updatePlayer(dt, input.aim, input.strafe);
+      regenerateBeam(dt);
+      applyInput(input);
+      updateUnibeam(input.held.includes('unibeam'), input.aim, dt);
+      updatePickups(input);
+      advanceWave(dt);
+      spawnEnemies();
+      // Focus slows the enemies and their fire, not the player or the clock
+      const timeScale = buffActive('focus') ? FOCUS_TIME_SCALE : 1;
+      updateBoss(dt, timeScale);
+      updateEnemies(dt, timeScale);
+      if (world.status === 'playing') updateProjectiles(dt * timeScale);
+      return events;
+    },
+    snapshot: () => ({
+      status: world.status,
+      health: world.health,
+      score: world.score,
+      wave: world.wave,
+      beamCharges: world.beamCharges,
+      maxBeamCharges: world.stats.maxBeamCharges,
+      waveLabel: world.wavePlan.label ?? null,
+      objective: objective(),
+      shield: shielded() ? 'active' :
+        world.time - world.lastShieldTime < SHIELD_COOLDOWN_MS ? 'cooldown' : 'ready',
+      unibeam: world.time < world.beamUntil ? 'firing' : world.beamChargeMs > 0 ? 'charging' : 'idle',
+      overload: world.time - world.lastOverloadTime < OVERLOAD_COOLDOWN_MS ? 'cooldown' : 'ready',
+      resumeIn: world.resumeInMs === null ? null : world.resumeInMs / 1000,
+      combo: {
+        hits: world.combo,
+        multiplier: comboMultiplier(),
+        decay: world.combo > 0 ? Math.max(0, (world.comboExpiresAt - world.time) / COMBO_WINDOW_MS) : 0
+      },
+      buffs: world.buffs.map(buff => ({
+        kind: buff.kind,
+        secondsLeft: Math.max(0, (buff.until - world.time) / 1000),
+        remaining: Math.max(0, (buff.until - world.time) / buff.durationMs)
+      })),
+      boss: world.boss && {
+        label: bossDefinition(world.boss).label,
+        hp: world.boss.hp,
+        maxHp: world.boss.maxHp,
+        phase: world.boss.phase,
+        phaseCount: bossDefinition(world.boss).phases.length,
+        immune: bossImmune(world.boss)
+      }
+    }),
+    setAspect: (next) => {
+      viewAspect = next;
+    },
+    setWaveScript: (next) => {
+      script = next;
+    },
+    setLoadout: (next) => {
+      suit = next;
+    },
+    aimRay
+  };
+};
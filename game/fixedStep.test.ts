@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { FIXED_DT, createFixedStepper } from './fixedStep';
+
+describe('createFixedStepper', () => {
+  it('carries leftover time over to later frames', () => {
+    let ticks = 0;
+    const stepper = createFixedStepper(() => { ticks++; });
+    expect(stepper.advance(FIXED_DT * 0.6)).toBe(0);
+    expect(stepper.advance(FIXED_DT * 0.6)).toBe(1);
+    expect(stepper.advance(FIXED_DT * 2.5)).toBe(2);
+    expect(ticks).toBe(3);
+  });
+
+  it('always steps by the fixed dt', () => {
+    const dts: number[] = [];
+    const stepper = createFixedStepper(dt => { dts.push(dt); }, 0.01);
+    stepper.advance(0.035);
+    expect(dts).toEqual([0.01, 0.01, 0.01]);
+  });
+
+  it('clamps long frames instead of fast-forwarding', () => {
+    const stepper = createFixedStepper(() => {}, 0.01);
+    // 100 ms at most, less a hair of floating-point error
+    expect(stepper.advance(5)).toBeLessThanOrEqual(10);
+    expect(stepper.advance(5)).toBeGreaterThanOrEqual(9);
+  });
+
+  it('ignores negative frame times', () => {
+    const stepper = createFixedStepper(() => {}, 0.01);
+    expect(stepper.advance(-1)).toBe(0);
+    expect(stepper.advance(0.015)).toBe(1);
+  });
+
+  it('drops accumulated time on reset', () => {
+    const stepper = createFixedStepper(() => {}, 0.01);
+    stepper.advance(0.009);
+    stepper.reset();
+    expect(stepper.advance(0.009)).toBe(0);
+  });
+});
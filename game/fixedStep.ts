@@ -0,0 +1,32 @@
+// --- Fixed-Timestep Driver ---
+// Turns variable render-frame deltas into whole simulation ticks, so gameplay is the same
+// at 30, 60 or 144 fps and replays step identically.
+
+export const FIXED_DT = 1 / 60;
+const MAX_FRAME_SEC = 0.1; // Longer frames (tab switches, GC pauses) are clamped instead of fast-forwarded
+
+export interface FixedStepper {
+  // Runs as many ticks as the accumulated time allows; returns how many ran
+  advance: (frameSeconds: number) => number;
+  reset: () => void;
+}
+
+export const createFixedStepper = (step: (dt: number) => void, dt: number = FIXED_DT): FixedStepper => {
+  let accumulator = 0;
+
+  return {
+    advance: (frameSeconds) => {
+      accumulator += Math.min(Math.max(frameSeconds, 0), MAX_FRAME_SEC);
+      let ticks = 0;
+      while (accumulator >= dt) {
+        step(dt);
+        accumulator -= dt;
+        ticks++;
+      }
+      return ticks;
+    },
+    reset: () => {
+      accumulator = 0;
+    }
+  };
+};
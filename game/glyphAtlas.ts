@@ -0,0 +1,84 @@
+import * as THREE from 'three';
+
+// --- Glyph Atlas for Damage Numbers ---
+// The digits (plus '+' and 'x' for score bonuses and combo multipliers) are drawn once into a
+// single texture; each number is a small quad strip whose UVs point into it, so a hit costs no
+// canvas, texture or upload.
+
+const GLYPHS = '0123456789+x';
+const CELL_WIDTH = 64; // Atlas pixels per glyph
+const CELL_HEIGHT = 128;
+const ATLAS_WIDTH = 1024; // Room for 16 glyphs, kept a power of two
+const GLYPH_HEIGHT = 1.0; // World units
+const GLYPH_WIDTH = GLYPH_HEIGHT * CELL_WIDTH / CELL_HEIGHT;
+export const MAX_GLYPHS = 6; // Longer text is cut off
+
+export interface GlyphAtlas {
+  // White glyphs with a glow; tint them with the material color
+  texture: THREE.Texture;
+  // A quad strip for up to MAX_GLYPHS characters, filled in by setText
+  createTextGeometry: () => THREE.BufferGeometry;
+  setText: (geometry: THREE.BufferGeometry, text: string) => void;
+}
+
+export const createGlyphAtlas = (): GlyphAtlas => {
+  const canvas = document.createElement('canvas');
+  canvas.width = ATLAS_WIDTH;
+  canvas.height = CELL_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.font = 'bold 96px monospace';
+    ctx.fillStyle = '#ffffff';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.shadowColor = '#ffffff';
+    ctx.shadowBlur = 14;
+    [...GLYPHS].forEach((glyph, i) => ctx.fillText(glyph, (i + 0.5) * CELL_WIDTH, CELL_HEIGHT / 2));
+  }
+  const texture = new THREE.CanvasTexture(canvas);
+
+  const createTextGeometry = () => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(MAX_GLYPHS * 4 * 3), 3));
+    geometry.setAttribute('uv', new THREE.BufferAttribute(new Float32Array(MAX_GLYPHS * 4 * 2), 2));
+    const index: number[] = [];
+    for (let i = 0; i < MAX_GLYPHS; i++) {
+      const v = i * 4;
+      index.push(v, v + 1, v + 2, v + 2, v + 1, v + 3);
+    }
+    geometry.setIndex(index);
+    geometry.setDrawRange(0, 0);
+    return geometry;
+  };
+
+  const setText = (geometry: THREE.BufferGeometry, text: string) => {
+    const chars = [...text].filter(c => GLYPHS.includes(c)).slice(0, MAX_GLYPHS);
+    const position = geometry.getAttribute('position') as THREE.BufferAttribute;
+    const uv = geometry.getAttribute('uv') as THREE.BufferAttribute;
+    const left = -chars.length * GLYPH_WIDTH / 2; // Centered on the mesh origin
+    const top = GLYPH_HEIGHT / 2;
+
+    chars.forEach((char, i) => {
+      const x0 = left + i * GLYPH_WIDTH;
+      const x1 = x0 + GLYPH_WIDTH;
+      const u0 = GLYPHS.indexOf(char) * CELL_WIDTH / ATLAS_WIDTH;
+      const u1 = u0 + CELL_WIDTH / ATLAS_WIDTH;
+      const v = i * 4;
+      // Top-left, bottom-left, top-right, bottom-right
+      position.setXYZ(v, x0, top, 0);
+      position.setXYZ(v + 1, x0, -top, 0);
+      position.setXYZ(v + 2, x1, top, 0);
+      position.setXYZ(v + 3, x1, -top, 0);
+      uv.setXY(v, u0, 1);
+      uv.setXY(v + 1, u0, 0);
+      uv.setXY(v + 2, u1, 1);
+      uv.setXY(v + 3, u1, 0);
+    });
+    position.needsUpdate = true;
+    uv.needsUpdate = true;
+    geometry.setDrawRange(0, chars.length * 6);
+    geometry.computeBoundingSphere();
+  };
+
+  return { texture, createTextGeometry, setText };
+};
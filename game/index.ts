@@ -0,0 +1,49 @@
+export * from './types';
+export * from './constants';
+export { ENEMY_ARCHETYPES } from './archetypes';
+export type { EnemyArchetype, SteeringBehaviour, HitReaction } from './archetypes';
+export { BOSSES } from './bosses';
+export type { BossDefinition, BossPartSpec, BossPhase, BossVolley } from './bosses';
+export { PICKUPS, BUFF_DURATIONS_MS, isBuff, pickPickup } from './pickups';
+export type { PickupDefinition } from './pickups';
+export {
+  UPGRADES,
+  STOCK_STATS,
+  suitStats,
+  nextUpgradeCost,
+  upgradeUnlocked,
+  canBuyUpgrade,
+  buyUpgrade,
+  sanitizeLoadout,
+  loadoutLevels,
+  creditsForScore
+} from './upgrades';
+export type { UpgradeDefinition, UpgradeEffect } from './upgrades';
+export { getWaveDefinition, pickArchetype, generateWave, planWave } from './waves';
+export type { WaveDefinition, WaveMix } from './waves';
+export {
+  DEFAULT_WAVE_SCRIPT,
+  WAVE_SCRIPT_VERSION,
+  FORMATION_SPACING,
+  KILLS_LOSS_MARGIN,
+  parseWaveScript,
+  loadWaveScript
+} from './waveScript';
+export type { WaveScript, ScriptedWave, SpawnGroup, WinCondition, Formation, SpawnLane } from './waveScript';
+export { createGameEngine } from './engine';
+export type { GameEngine, GameEngineOptions } from './engine';
+export {
+  createRandom,
+  createStream,
+  hashSeed,
+  randomSeed,
+  formatSeed,
+  parseSeed,
+  dailyChallengeDate,
+  dailySeed
+} from './random';
+export type { Random, RandomStream } from './random';
+export { FIXED_DT, createFixedStepper } from './fixedStep';
+export type { FixedStepper } from './fixedStep';
+export { createGameRenderer } from './renderer';
+export type { GameRenderer } from './renderer';
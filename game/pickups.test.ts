@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { PICKUPS, isBuff, pickPickup } from './pickups';
+
+describe('pickPickup', () => {
+  const total = Object.values(PICKUPS).reduce((sum, p) => sum + p.weight, 0);
+
+  it('splits the roll by weight, in definition order', () => {
+    expect(pickPickup(0)).toBe('repair');
+    expect(pickPickup((PICKUPS.repair.weight - 0.01) / total)).toBe('repair');
+    expect(pickPickup(PICKUPS.repair.weight / total)).toBe('beam_charge');
+    expect(pickPickup(0.9999)).toBe('focus');
+  });
+
+  it('tells buffs from instant pickups', () => {
+    expect(isBuff('rapid_fire')).toBe(true);
+    expect(isBuff('repair')).toBe(false);
+  });
+});
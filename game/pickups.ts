@@ -0,0 +1,40 @@
+import { BuffKind, PickupKind } from './types';
+
+// --- Pickup Definitions ---
+// What a destroyed enemy may drop and what collecting it does. Instant pickups land at once;
+// the rest start a buff that the engine times out. The look lives in the renderer.
+
+export interface PickupDefinition {
+  kind: PickupKind;
+  label: string;
+  weight: number; // Relative drop chance
+}
+
+export const PICKUPS: Record<PickupKind, PickupDefinition> = {
+  repair: { kind: 'repair', label: 'ARMOR REPAIR', weight: 3 },
+  beam_charge: { kind: 'beam_charge', label: 'BEAM CELL', weight: 3 },
+  shield: { kind: 'shield', label: 'DEFLECTOR', weight: 2 },
+  rapid_fire: { kind: 'rapid_fire', label: 'RAPID FIRE', weight: 2 },
+  focus: { kind: 'focus', label: 'FOCUS', weight: 1 }
+};
+
+// How long each buff lasts once collected
+export const BUFF_DURATIONS_MS: Record<BuffKind, number> = {
+  shield: 5000,
+  rapid_fire: 8000,
+  focus: 6000
+};
+
+export const isBuff = (kind: PickupKind): kind is BuffKind => kind in BUFF_DURATIONS_MS;
+
+// Weighted pick; `roll` is uniform in [0, 1)
+export const pickPickup = (roll: number): PickupKind => {
+  const entries = Object.values(PICKUPS);
+  const total = entries.reduce((sum, p) => sum + p.weight, 0);
+  let remaining = roll * total;
+  for (const { kind, weight } of entries) {
+    remaining -= weight;
+    if (remaining < 0) return kind;
+  }
+  return entries[entries.length - 1].kind;
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { createPool } from './pool';
+
+interface Item {
+  id: number;
+}
+
+const itemPool = (recycle?: boolean) => {
+  let next = 0;
+  const released: number[] = [];
+  const pool = createPool<Item>({
+    create: () => ({ id: next++ }),
+    capacity: 2,
+    onRelease: item => { released.push(item.id); },
+    recycle
+  });
+  const ids = () => pool.active.map(item => item.id);
+  return { pool, released, ids };
+};
+
+describe('createPool', () => {
+  it('reuses released items before creating new ones', () => {
+    const { pool } = itemPool();
+    const first = pool.acquire();
+    pool.release(first);
+    expect(pool.acquire()).toBe(first);
+    expect(pool.size).toBe(1);
+  });
+
+  it('recycles the oldest live item past capacity', () => {
+    const { pool, released, ids } = itemPool();
+    pool.acquire();
+    pool.acquire();
+    expect(pool.acquire().id).toBe(0);
+    expect(released).toEqual([0]);
+    expect(ids()).toEqual([1, 0]);
+  });
+
+  it('grows past capacity instead when recycling is off', () => {
+    const { pool, released, ids } = itemPool(false);
+    for (let i = 0; i < 3; i++) pool.acquire();
+    expect(ids()).toEqual([0, 1, 2]);
+    expect(pool.size).toBe(3);
+    expect(released).toEqual([]);
+  });
+});
@@ -0,0 +1,68 @@
+// --- Object Pools ---
+// Effects are spawned many times a second; pools hand out the same objects again instead
+// of allocating (and leaking) new meshes, materials and textures for each one.
+
+export interface Pool<T> {
+  // Live items, oldest first
+  readonly active: readonly T[];
+  // Reuses a free item, creates one while under capacity, and past that recycles the oldest
+  // live item so object counts (and draw calls) stay bounded however busy the screen gets.
+  // Pools created with recycle: false keep creating instead.
+  acquire: () => T;
+  release: (item: T) => void;
+  releaseAll: () => void;
+  // Every item ever created, live or free
+  readonly size: number;
+}
+
+export interface PoolOptions<T> {
+  create: () => T;
+  capacity: number;
+  // Hides an item when it goes back to the pool
+  onRelease: (item: T) => void;
+  // False for items that stand for one world entity each, which must never be taken from a
+  // live one: capacity is then only the expected peak, and the pool grows past it
+  recycle?: boolean;
+}
+
+export const createPool = <T>({ create, capacity, onRelease, recycle = true }: PoolOptions<T>): Pool<T> => {
+  const active: T[] = [];
+  const free: T[] = [];
+  let size = 0;
+
+  const take = (): T => {
+    const reused = free.pop();
+    if (reused) return reused;
+    if (size < capacity || active.length === 0 || !recycle) {
+      size++;
+      return create();
+    }
+    const oldest = active.shift() as T;
+    onRelease(oldest);
+    return oldest;
+  };
+
+  return {
+    active,
+    acquire: () => {
+      const item = take();
+      active.push(item);
+      return item;
+    },
+    release: (item) => {
+      const index = active.indexOf(item);
+      if (index === -1) return;
+      active.splice(index, 1);
+      onRelease(item);
+      free.push(item);
+    },
+    releaseAll: () => {
+      active.forEach(onRelease);
+      free.push(...active);
+      active.length = 0;
+    },
+    get size() {
+      return size;
+    }
+  };
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom, createStream, dailySeed, formatSeed, parseSeed } from './random';
+
+const draw = (random: () => number, count: number) => Array.from({ length: count }, () => random());
+
+describe('seeded randomness', () => {
+  it('repeats the same sequence for the same seed', () => {
+    expect(draw(createRandom(42), 20)).toEqual(draw(createRandom(42), 20));
+    expect(draw(createRandom(42), 20)).not.toEqual(draw(createRandom(43), 20));
+  });
+
+  it('stays within [0, 1)', () => {
+    draw(createRandom(9), 1000).forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('keeps the gameplay and cosmetic streams apart', () => {
+    expect(draw(createStream(5, 'gameplay'), 10)).not.toEqual(draw(createStream(5, 'cosmetic'), 10));
+    expect(draw(createStream(5, 'gameplay'), 10)).toEqual(draw(createStream(5, 'gameplay'), 10));
+  });
+
+  it('round-trips seeds through their hex form', () => {
+    expect(formatSeed(0x1a2b3c4d)).toBe('1A2B3C4D');
+    expect(parseSeed(' 1a2b3c4d ')).toBe(0x1a2b3c4d);
+    expect(parseSeed('not a seed')).toBeNull();
+  });
+
+  it('gives every player the same daily seed', () => {
+    expect(dailySeed('2026-10-18')).toBe(dailySeed('2026-10-18'));
+    expect(dailySeed('2026-10-18')).not.toBe(dailySeed('2026-10-19'));
+  });
+});
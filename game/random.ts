@@ -0,0 +1,47 @@
+// --- Seeded Randomness ---
+// Every run has one 32-bit seed. Gameplay draws from a stream derived from it, so the same
+// seed and the same inputs replay the same run; cosmetic effects (particles, lightning
+// jitter, stars) use their own stream and can never shift gameplay rolls.
+
+export type Random = () => number; // Uniform in [0, 1), like Math.random
+
+export type RandomStream = 'gameplay' | 'cosmetic';
+
+// mulberry32: tiny, fast and good enough for games
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// FNV-1a, for turning text (dates, stream names) into seeds
+export const hashSeed = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+export const createStream = (seed: number, stream: RandomStream) =>
+  createRandom(hashSeed(`${stream}:${seed >>> 0}`));
+
+export const randomSeed = () => Math.floor(Math.random() * 4294967296) >>> 0;
+
+export const formatSeed = (seed: number) => (seed >>> 0).toString(16).toUpperCase().padStart(8, '0');
+
+export const parseSeed = (text: string): number | null => {
+  const trimmed = text.trim();
+  return /^[0-9a-f]{1,8}$/i.test(trimmed) ? parseInt(trimmed, 16) >>> 0 : null;
+};
+
+// UTC, so every player gets the same challenge on the same day
+export const dailyChallengeDate = (now: Date = new Date()) => now.toISOString().slice(0, 10);
+
+export const dailySeed = (date: string = dailyChallengeDate()) => hashSeed(`daily:${date}`);
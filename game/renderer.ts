@@ -0,0 +1,754 @@
+import * as THREE from 'three';
+import { BEAM_AOE_RADIUS, BEAM_CHARGE_MS, CAMERA_FOV, PLAYER_HEIGHT } from './constants';
+import { ENEMY_ARCHETYPES } from './archetypes';
+import { BossView, createBossView } from './bossView';
+import { EnemyModel, createEnemyModelKit } from './enemyModels';
+import { createGlyphAtlas } from './glyphAtlas';
+import { Pool, createPool } from './pool';
+import { Random, createStream, randomSeed } from './random';
+import { GameEvent, PickupKind, ScoreBonus, Vec3, World } from './types';
+
+// --- three.js View of the World ---
+// Reads the engine's plain-data world every frame and turns step events into effects.
+// Everything here is cosmetic: nothing the renderer does feeds back into the simulation.
+
+interface EnemyView extends EnemyModel {
+  flash: number; // Seconds left on the hit flash
+}
+
+interface Particle {
+  mesh: THREE.Mesh; // Owns its material, for an independent fade
+  velocity: THREE.Vector3;
+  life: number;
+}
+
+interface ElectricalArc {
+  mesh: THREE.Line; // Owns its geometry; the points are rewritten on each use
+  life: number;
+}
+
+interface Shockwave {
+  mesh: THREE.Mesh; // Owns its material
+  light: THREE.PointLight;
+  life: number;
+  direction: THREE.Vector3 | null; // null indicates omni-directional 360 blast
+}
+
+interface DamageText {
+  mesh: THREE.Mesh; // Owns its glyph geometry and material
+  velocity: THREE.Vector3;
+  life: number;
+}
+
+interface BeamEffect {
+  mesh: THREE.Mesh;
+  life: number; // Seconds
+}
+
+interface FlashLight {
+  light: THREE.PointLight;
+  life: number; // Seconds
+}
+
+export interface GameRenderer {
+  readonly camera: THREE.PerspectiveCamera;
+  // Syncs meshes to the world, plays the events from this frame's steps and draws
+  frame: (world: World, events: GameEvent[], delta: number) => void;
+  resize: (width: number, height: number) => void;
+  // Clears leftover effects (particles, beams, damage numbers) when a new run starts and
+  // reseeds the cosmetic random stream from the run seed
+  reset: (seed: number) => void;
+  // Frees every GPU resource and removes the canvas; the renderer is unusable afterwards
+  dispose: () => void;
+}
+
+const toVector = (v: Vec3) => new THREE.Vector3(v.x, v.y, v.z);
+
+const disposeMaterial = (material: THREE.Material) => {
+  Object.values(material).forEach(value => {
+    if (value instanceof THREE.Texture) value.dispose();
+  });
+  material.dispose();
+};
+
+// Pool capacities; past these the oldest live effect is recycled, while the projectile and
+// pickup pools grow
+const MAX_PARTICLES = 240;
+const MAX_DAMAGE_TEXTS = 48;
+const MAX_ARCS = 32;
+const MAX_SHOCKWAVES = 8;
+const MAX_REPULSOR_BEAMS = 24;
+const MAX_FLASH_LIGHTS = 4;
+const MAX_PROJECTILES = 64;
+const MAX_PICKUPS = 16;
+
+const ARC_SEGMENTS = 10;
+const UNIBEAM_LENGTH = 100;
+const UNIBEAM_MUZZLE = new THREE.Vector3(0.3, -0.3, -0.5); // Chest reactor, in camera space
+const UNIBEAM_ARC_CHANCE = 0.3; // Per frame while the beam fires
+
+const PICKUP_COLORS: Record<PickupKind, number> = {
+  repair: 0x33ff66,
+  beam_charge: 0x2288ff,
+  shield: 0x34d399,
+  rapid_fire: 0xff8800,
+  focus: 0xcc66ff
+};
+const PICKUP_BLINK_MS = 2000; // Blinks for this long before it expires
+
+const BONUS_COLORS: Record<ScoreBonus, number> = {
+  multi_kill: 0xff8800,
+  long_range: 0x66ff66,
+  no_damage: 0xffcc00
+};
+
+export const createGameRenderer = (container: HTMLElement): GameRenderer => {
+  let random: Random = createStream(randomSeed(), 'cosmetic');
+
+  const scene = new THREE.Scene();
+  scene.background = new THREE.Color(0x000000);
+  scene.fog = new THREE.FogExp2(0x000000, 0.015);
+
+  const camera = new THREE.PerspectiveCamera(CAMERA_FOV, window.innerWidth / window.innerHeight, 0.1, 1000);
+  camera.position.set(0, PLAYER_HEIGHT, 0);
+
+  const renderer = new THREE.WebGLRenderer({ antialias: true, powerPreference: "high-performance" });
+  renderer.setSize(window.innerWidth, window.innerHeight);
+  renderer.setPixelRatio(Math.min(window.devicePixelRatio, 1.5)); // Reduced pixel ratio for performance
+  container.appendChild(renderer.domElement);
+
+  const glyphs = createGlyphAtlas();
+  const enemyModels = createEnemyModelKit();
+
+  // Cached Materials & Geometries
+  const materials = {
+    particle: new THREE.MeshBasicMaterial({ color: 0xffaa00, transparent: true, opacity: 1.0 }),
+    enemyFlash: new THREE.MeshStandardMaterial({ color: 0x222222, emissive: 0xffffff, emissiveIntensity: 0.8 }),
+    shockwave: new THREE.MeshBasicMaterial({
+        color: 0x88ffff,
+        transparent: true,
+        opacity: 0.9,
+        blending: THREE.AdditiveBlending,
+        side: THREE.DoubleSide
+    }),
+    damageText: new THREE.MeshBasicMaterial({
+        map: glyphs.texture,
+        transparent: true,
+        depthTest: false,
+        depthWrite: false
+    }),
+    arc: new THREE.LineBasicMaterial({ color: 0x00aaff }),
+    repulsorCore: new THREE.MeshBasicMaterial({ color: 0xccffff }),
+    repulsorGlow: new THREE.MeshBasicMaterial({
+        color: 0x00ffff,
+        transparent: true,
+        opacity: 0.3,
+        blending: THREE.AdditiveBlending
+    }),
+    unibeam: new THREE.MeshBasicMaterial({
+        color: 0x2288ff,
+        transparent: true,
+        opacity: 0.8,
+        blending: THREE.AdditiveBlending,
+        side: THREE.DoubleSide
+    }),
+    projectile: new THREE.MeshBasicMaterial({ color: 0xffccdd }),
+    projectileGlow: new THREE.MeshBasicMaterial({
+        color: 0xff2266,
+        transparent: true,
+        opacity: 0.5,
+        blending: THREE.AdditiveBlending
+    })
+  };
+
+  const geometries = {
+    particle: new THREE.TetrahedronGeometry(0.15),
+    enemyRing: new THREE.TorusGeometry(1.4, 0.05, 8, 16), // Directional shockwave
+    omniSphere: new THREE.SphereGeometry(1, 32, 32), // For 360 shockwave
+    // Unit radius and length along +z, centered; scaled per shot
+    repulsor: new THREE.CylinderGeometry(1, 1, 1, 6),
+    // Narrow at the chest, widening to the band it damages
+    unibeam: new THREE.CylinderGeometry(0.3, BEAM_AOE_RADIUS, UNIBEAM_LENGTH, 16, 1, true),
+    unibeamCharge: new THREE.SphereGeometry(0.12, 16, 16),
+    projectile: new THREE.SphereGeometry(0.25, 8, 8),
+    projectileGlow: new THREE.SphereGeometry(0.6, 12, 12),
+    pickup: new THREE.OctahedronGeometry(0.6),
+    pickupGlow: new THREE.SphereGeometry(1.1, 12, 12)
+  };
+  // Orient ring correctly
+  geometries.enemyRing.rotateX(Math.PI / 2);
+  geometries.repulsor.rotateX(-Math.PI / 2);
+  geometries.unibeam.rotateX(-Math.PI / 2);
+  geometries.unibeam.translate(0, 0, UNIBEAM_LENGTH / 2);
+
+  // Environment
+  const starGeo = new THREE.BufferGeometry();
+  const starCount = 1000;
+  const starPos = new Float32Array(starCount * 3);
+  for(let i=0; i<starCount*3; i++) {
+      starPos[i] = (random() - 0.5) * 200;
+  }
+  starGeo.setAttribute('position', new THREE.BufferAttribute(starPos, 3));
+  const starMat = new THREE.PointsMaterial({ color: 0xffffff, size: 0.3, transparent: true, opacity: 0.8 });
+  const stars = new THREE.Points(starGeo, starMat);
+  scene.add(stars);
+
+  const ambientLight = new THREE.AmbientLight(0x222222);
+  scene.add(ambientLight);
+  const hemiLight = new THREE.HemisphereLight(0x00ffff, 0xff0000, 0.2);
+  scene.add(hemiLight);
+
+  const gridHelper = new THREE.GridHelper(200, 100, 0x00ffff, 0x001133);
+  (gridHelper.material as THREE.Material).transparent = true;
+  (gridHelper.material as THREE.Material).opacity = 0.2;
+  scene.add(gridHelper);
+
+  const muzzleLight = new THREE.PointLight(0x00ffff, 0, 10);
+  camera.add(muzzleLight);
+  muzzleLight.position.set(0.3, -0.3, -1);
+
+  // One sustained beam, re-aimed every frame while the world says it fires
+  const unibeam = new THREE.Mesh(geometries.unibeam, materials.unibeam);
+  unibeam.visible = false;
+  scene.add(unibeam);
+  // Swells at the muzzle while the unibeam charges
+  const unibeamCharge = new THREE.Mesh(geometries.unibeamCharge, materials.unibeam);
+  unibeamCharge.position.copy(UNIBEAM_MUZZLE);
+  unibeamCharge.visible = false;
+  camera.add(unibeamCharge);
+
+  scene.add(camera);
+
+  // --- Effect Pools ---
+  // Pooled objects are added to the scene once and hidden while free, so releasing one is
+  // just a visibility flip and dispose() finds them all in the scene graph.
+
+  const pooled = <T extends { life: number }>(capacity: number, create: () => T, object: (item: T) => THREE.Object3D) =>
+    createPool<T>({
+      capacity,
+      create: () => {
+        const item = create();
+        object(item).visible = false;
+        scene.add(object(item));
+        return item;
+      },
+      onRelease: item => {
+        object(item).visible = false;
+      }
+    });
+
+  const createBeamPool = (capacity: number, geometry: THREE.BufferGeometry, material: THREE.Material) =>
+    pooled<BeamEffect>(capacity, () => ({ mesh: new THREE.Mesh(geometry, material), life: 0 }), b => b.mesh);
+
+  const particles = pooled<Particle>(MAX_PARTICLES, () => ({
+    mesh: new THREE.Mesh(geometries.particle, materials.particle.clone()),
+    velocity: new THREE.Vector3(),
+    life: 0
+  }), p => p.mesh);
+
+  const damageTexts = pooled<DamageText>(MAX_DAMAGE_TEXTS, () => {
+    const mesh = new THREE.Mesh(glyphs.createTextGeometry(), materials.damageText.clone());
+    mesh.renderOrder = 1; // Drawn over the effects it floats above
+    return { mesh, velocity: new THREE.Vector3(0, 1.5, 0), life: 0 };
+  }, t => t.mesh);
+
+  const electricalArcs = pooled<ElectricalArc>(MAX_ARCS, () => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array((ARC_SEGMENTS + 1) * 3), 3));
+    return { mesh: new THREE.Line(geometry, materials.arc), life: 0 };
+  }, a => a.mesh);
+
+  const shockwaves = pooled<Shockwave>(MAX_SHOCKWAVES, () => {
+    const mesh = new THREE.Mesh(geometries.omniSphere, materials.shockwave.clone());
+    const light = new THREE.PointLight(0x0088ff, 4, 15);
+    mesh.add(light);
+    return { mesh, light, life: 0, direction: null };
+  }, sw => sw.mesh);
+
+  const flashLights = pooled<FlashLight>(MAX_FLASH_LIGHTS, () => ({
+    light: new THREE.PointLight(0xffaa00, 2, 10),
+    life: 0
+  }), f => f.light);
+
+  const beams = {
+    core: createBeamPool(MAX_REPULSOR_BEAMS, geometries.repulsor, materials.repulsorCore),
+    glow: createBeamPool(MAX_REPULSOR_BEAMS, geometries.repulsor, materials.repulsorGlow)
+  };
+
+  const effectPools = [particles, damageTexts, electricalArcs, shockwaves, flashLights, ...Object.values(beams)];
+
+  // Enemy projectiles follow the world like enemies do, but come and go far more often. Each
+  // mesh is mapped to a live projectile, so a busy screen grows the pool rather than recycling
+  const projectileMeshes = createPool<THREE.Mesh>({
+    capacity: MAX_PROJECTILES,
+    recycle: false,
+    create: () => {
+      const mesh = new THREE.Mesh(geometries.projectile, materials.projectile);
+      mesh.add(new THREE.Mesh(geometries.projectileGlow, materials.projectileGlow));
+      mesh.visible = false;
+      scene.add(mesh);
+      return mesh;
+    },
+    onRelease: mesh => {
+      mesh.visible = false;
+    }
+  });
+
+  // Pickups too, likewise mapped one to one; each mesh is recoloured for whatever kind it stands for
+  const pickupMeshes = createPool<THREE.Mesh>({
+    capacity: MAX_PICKUPS,
+    recycle: false,
+    create: () => {
+      const mesh = new THREE.Mesh(geometries.pickup, new THREE.MeshBasicMaterial());
+      mesh.add(new THREE.Mesh(geometries.pickupGlow, new THREE.MeshBasicMaterial({
+        transparent: true,
+        opacity: 0.35,
+        blending: THREE.AdditiveBlending,
+        depthWrite: false
+      })));
+      mesh.visible = false;
+      scene.add(mesh);
+      return mesh;
+    },
+    onRelease: mesh => {
+      mesh.visible = false;
+    }
+  });
+
+  const enemyViews = new Map<string, EnemyView>();
+  const projectileViews = new Map<string, THREE.Mesh>();
+  const pickupViews = new Map<string, THREE.Mesh>();
+  let bossView: BossView | null = null;
+  let shakeIntensity = 0;
+  let muzzleFlash = 0;
+
+  // --- Effects ---
+
+  const addShake = (intensity: number) => {
+      shakeIntensity = Math.min(shakeIntensity + intensity, 2.0);
+  };
+
+  const spawnText = (pos: THREE.Vector3, value: string, color: number, size = 1) => {
+      const text = damageTexts.acquire();
+      glyphs.setText(text.mesh.geometry, value);
+      (text.mesh.material as THREE.MeshBasicMaterial).color.setHex(color);
+
+      text.mesh.position.copy(pos);
+      text.mesh.position.y += 1.0; // Higher offset for bigger enemies
+      text.mesh.scale.setScalar(size);
+      text.mesh.visible = true;
+      text.life = 1.0;
+  };
+
+  const spawnDamageText = (pos: THREE.Vector3, amount: number, isCrit: boolean = false) =>
+      spawnText(pos, amount.toString(), isCrit ? 0x00ffff : 0xffffff);
+
+  // Combo step-ups float just ahead of the camera, below the crosshair
+  const spawnComboText = (multiplier: number) => {
+      const pos = new THREE.Vector3(0, -1.5, -8).applyQuaternion(camera.quaternion).add(camera.position);
+      spawnText(pos, `x${multiplier}`, 0xffcc00, 0.8);
+  };
+
+  const spawnExplosion = (pos: THREE.Vector3, color = 0xffaa00) => {
+    const count = 8;
+    for (let i = 0; i < count; i++) {
+      const p = particles.acquire();
+      (p.mesh.material as THREE.MeshBasicMaterial).color.setHex(color);
+      p.mesh.position.copy(pos);
+      p.mesh.position.x += (random() - 0.5) * 1.0; // Bigger explosion spread
+      p.mesh.visible = true;
+
+      p.velocity.set(
+        (random() - 0.5) * 2,
+        (random() - 0.5) * 2,
+        (random() - 0.5) * 2
+      );
+      p.life = 0.8;
+    }
+    const flash = flashLights.acquire();
+    flash.light.color.setHex(color);
+    flash.light.position.copy(pos);
+    flash.light.visible = true;
+    flash.life = 0.1;
+  };
+
+  const spawnShockwave = (origin: THREE.Vector3, direction: THREE.Vector3 | null) => {
+       // If direction is null, it is an OMNI (360) shockwave (Sphere)
+       // Otherwise it is a directional ring
+       const sw = shockwaves.acquire();
+       sw.mesh.geometry = direction ? geometries.enemyRing : geometries.omniSphere;
+       sw.mesh.position.copy(origin);
+       sw.mesh.rotation.set(0, 0, 0);
+       if (direction) {
+          sw.mesh.scale.set(2,2,2);
+          sw.mesh.lookAt(origin.clone().add(direction));
+       } else {
+          // Omni shockwave starts small
+          sw.mesh.scale.set(0.1, 0.1, 0.1);
+       }
+       sw.mesh.visible = true;
+       sw.direction = direction;
+       sw.life = 0;
+  };
+
+  const generateLightning = (start: THREE.Vector3, end: THREE.Vector3) => {
+      const arc = electricalArcs.acquire();
+      const position = arc.mesh.geometry.getAttribute('position') as THREE.BufferAttribute;
+      position.setXYZ(0, start.x, start.y, start.z);
+      for (let i = 1; i < ARC_SEGMENTS; i++) {
+          const t = i / ARC_SEGMENTS;
+          position.setXYZ(i,
+            start.x + (end.x - start.x) * t + (random() - 0.5) * 2.0,
+            start.y + (end.y - start.y) * t + (random() - 0.5) * 2.0,
+            start.z + (end.z - start.z) * t + (random() - 0.5) * 2.0
+          );
+      }
+      position.setXYZ(ARC_SEGMENTS, end.x, end.y, end.z);
+      position.needsUpdate = true;
+      arc.mesh.geometry.computeBoundingSphere();
+      arc.mesh.visible = true;
+      arc.life = 0.2;
+  };
+
+  const unibeamStart = () => UNIBEAM_MUZZLE.clone().applyMatrix4(camera.matrixWorld);
+
+  const drawUnibeamIgnition = (target: THREE.Vector3) => {
+      const startPoint = unibeamStart();
+      for(let k=0; k<8; k++) generateLightning(startPoint, target);
+  };
+
+  const drawOverload = () => {
+      // 360 DEGREE SHOCKWAVE
+      spawnShockwave(unibeamStart(), null);
+  };
+
+  const drawRepulsor = (hand: 'primary' | 'left' | 'right', target: THREE.Vector3, charged: boolean) => {
+      muzzleLight.color.setHex(0x00ffff);
+      muzzleLight.intensity = 2;
+      muzzleFlash = 0.05;
+
+      const muzzleX = hand === 'left' ? -0.25 : 0.25;
+      const startPoint = new THREE.Vector3(muzzleX, -0.3, -0.4).applyMatrix4(camera.matrixWorld);
+      const distance = startPoint.distanceTo(target);
+
+      const coreRadius = charged ? 0.09 : 0.03;
+      const glowRadius = charged ? 0.3 : 0.08;
+      [{ pool: beams.core, radius: coreRadius }, { pool: beams.glow, radius: glowRadius }].forEach(({ pool, radius }) => {
+          const beam = pool.acquire();
+          beam.mesh.position.copy(startPoint).lerp(target, 0.5);
+          beam.mesh.lookAt(target);
+          beam.mesh.scale.set(radius, radius, distance);
+          beam.mesh.visible = true;
+          beam.life = 0.1;
+      });
+  };
+
+  const playEvent = (event: GameEvent) => {
+      switch (event.type) {
+        case 'shot':
+          drawRepulsor(event.hand, toVector(event.target), event.charged);
+          addShake(event.charged ? 0.4 : 0.08);
+          break;
+        case 'unibeam':
+          drawUnibeamIgnition(toVector(event.target));
+          addShake(1.0);
+          break;
+        case 'overload':
+          drawOverload();
+          addShake(2.0); // Massive Shake
+          break;
+        case 'enemy_damaged': {
+          spawnDamageText(toVector(event.position), event.amount, event.crit);
+          const view = enemyViews.get(event.id);
+          if (view) view.flash = 0.05;
+          else bossView?.flash(event.id);
+          break;
+        }
+        case 'boss_part_destroyed':
+          spawnExplosion(toVector(event.position));
+          addShake(0.6);
+          break;
+        case 'boss_phase':
+          spawnShockwave(toVector(event.position), null);
+          addShake(1.0);
+          break;
+        case 'boss_defeated': {
+          const center = toVector(event.position);
+          for (let i = 0; i < 5; i++) {
+            spawnExplosion(center.clone().add(new THREE.Vector3((random() - 0.5) * 12, (random() - 0.5) * 4, 0)));
+          }
+          spawnShockwave(center, null);
+          addShake(2.0);
+          break;
+        }
+        case 'enemy_destroyed':
+          spawnExplosion(toVector(event.position));
+          break;
+        case 'pickup_collected':
+          spawnExplosion(toVector(event.position), PICKUP_COLORS[event.kind]);
+          break;
+        case 'score_bonus':
+          spawnText(toVector(event.position), `+${event.points}`, BONUS_COLORS[event.bonus], 1.5);
+          break;
+        case 'combo_up':
+          spawnComboText(event.multiplier);
+          break;
+        case 'shield_absorb':
+          spawnExplosion(toVector(event.position));
+          addShake(0.3);
+          break;
+        case 'player_hit':
+          spawnExplosion(toVector(event.position));
+          addShake(1.0);
+          break;
+      }
+  };
+
+  // --- World Sync ---
+
+  const syncEnemies = (world: World, delta: number) => {
+      const alive = new Set<string>();
+      world.enemies.forEach(enemy => {
+          alive.add(enemy.id);
+          let view = enemyViews.get(enemy.id);
+          if (!view) {
+              view = { ...enemyModels.build(enemy.archetype), flash: 0 };
+              scene.add(view.root);
+              enemyViews.set(enemy.id, view);
+          }
+          view.root.position.set(enemy.position.x, enemy.position.y, enemy.position.z);
+          view.root.lookAt(camera.position);
+          if (view.spinner) view.spinner.rotation.z += 5 * delta;
+          view.flash = Math.max(0, view.flash - delta);
+          view.root.material = view.flash > 0 ? materials.enemyFlash : view.material;
+
+          // Telegraph: the orb swells over the charge and the shot leaves at full size
+          const weapon = ENEMY_ARCHETYPES[enemy.archetype].weapon;
+          if (view.chargeOrb && weapon) {
+              view.chargeOrb.visible = enemy.fireAt !== null;
+              if (enemy.fireAt !== null) {
+                  const progress = 1 - (enemy.fireAt - world.time) / weapon.chargeMs;
+                  view.chargeOrb.scale.setScalar(0.2 + Math.max(0, progress));
+              }
+          }
+      });
+
+      enemyViews.forEach((view, id) => {
+          if (alive.has(id)) return;
+          scene.remove(view.root);
+          enemyViews.delete(id);
+      });
+  };
+
+  const syncBoss = (world: World, delta: number) => {
+      if (bossView && bossView.id !== world.boss?.id) {
+          bossView.dispose();
+          bossView = null;
+      }
+      if (!world.boss) return;
+      if (!bossView) bossView = createBossView(scene, world.boss);
+      bossView.sync(world.boss, world.time, delta);
+  };
+
+  const syncUnibeam = (world: World) => {
+      unibeamCharge.visible = world.beamChargeMs > 0;
+      if (unibeamCharge.visible) unibeamCharge.scale.setScalar(1 + (world.beamChargeMs / BEAM_CHARGE_MS) * 2);
+
+      unibeam.visible = world.beamTarget !== null;
+      if (!world.beamTarget) return;
+      const start = unibeamStart();
+      const target = toVector(world.beamTarget);
+      unibeam.position.copy(start);
+      unibeam.lookAt(target);
+      // Flickers around its full width
+      const flicker = 0.85 + random() * 0.3;
+      unibeam.scale.set(flicker, flicker, 1);
+      if (random() < UNIBEAM_ARC_CHANCE) generateLightning(start, target);
+      addShake(0.02);
+  };
+
+  const syncProjectiles = (world: World) => {
+      const alive = new Set<string>();
+      world.projectiles.forEach(projectile => {
+          alive.add(projectile.id);
+          let mesh = projectileViews.get(projectile.id);
+          if (!mesh) {
+              mesh = projectileMeshes.acquire();
+              mesh.visible = true;
+              projectileViews.set(projectile.id, mesh);
+          }
+          mesh.position.set(projectile.position.x, projectile.position.y, projectile.position.z);
+      });
+
+      projectileViews.forEach((mesh, id) => {
+          if (alive.has(id)) return;
+          projectileMeshes.release(mesh);
+          projectileViews.delete(id);
+      });
+  };
+
+  const syncPickups = (world: World) => {
+      const alive = new Set<string>();
+      world.pickups.forEach(pickup => {
+          alive.add(pickup.id);
+          let mesh = pickupViews.get(pickup.id);
+          if (!mesh) {
+              mesh = pickupMeshes.acquire();
+              const color = PICKUP_COLORS[pickup.kind];
+              (mesh.material as THREE.MeshBasicMaterial).color.setHex(color);
+              ((mesh.children[0] as THREE.Mesh).material as THREE.MeshBasicMaterial).color.setHex(color);
+              pickupViews.set(pickup.id, mesh);
+          }
+          const msLeft = pickup.expiresAt - world.time;
+          mesh.visible = msLeft > PICKUP_BLINK_MS || Math.floor(msLeft / 125) % 2 === 0;
+          // Spins and bobs in place; the simulated position does not move
+          mesh.position.set(pickup.position.x, pickup.position.y + Math.sin(world.time / 300) * 0.2, pickup.position.z);
+          mesh.rotation.y = world.time / 400;
+      });
+
+      pickupViews.forEach((mesh, id) => {
+          if (alive.has(id)) return;
+          pickupMeshes.release(mesh);
+          pickupViews.delete(id);
+      });
+  };
+
+  const syncCamera = (world: World, delta: number) => {
+      const { position, yaw, pitch } = world.player;
+      camera.rotation.set(pitch, yaw, 0);
+      camera.position.set(position.x, position.y, position.z);
+
+      // Camera Shake
+      if (shakeIntensity > 0) {
+          camera.position.x += (random() - 0.5) * shakeIntensity;
+          camera.position.y += (random() - 0.5) * shakeIntensity;
+          shakeIntensity = Math.max(0, shakeIntensity - (delta * 5));
+      }
+      camera.updateMatrixWorld();
+
+      gridHelper.position.z = camera.position.z;
+      gridHelper.position.x = camera.position.x;
+      stars.position.z = camera.position.z;
+  };
+
+  // --- Effect Updates ---
+  // Pools are walked backwards because expired items are released mid-loop
+
+  const expire = <T extends { life: number }>(pool: Pool<T>, delta: number) => {
+      for (let i = pool.active.length - 1; i >= 0; i--) {
+          const effect = pool.active[i];
+          effect.life -= delta;
+          if (effect.life <= 0) pool.release(effect);
+      }
+  };
+
+  const updateEffects = (delta: number) => {
+      if (muzzleFlash > 0) {
+          muzzleFlash -= delta;
+          if (muzzleFlash <= 0) muzzleLight.intensity = 0;
+      }
+
+      // Update Beams, Electrical Arcs and explosion flashes
+      Object.values(beams).forEach(pool => expire(pool, delta));
+      expire(electricalArcs, delta);
+      expire(flashLights, delta);
+
+      // Update Shockwaves
+      for (let i = shockwaves.active.length - 1; i >= 0; i--) {
+          const sw = shockwaves.active[i];
+          sw.life += delta * 4.0;
+          const scale = 1 + (sw.life * 30.0);
+
+          if (sw.direction) {
+             // Directional Ring
+             sw.mesh.scale.set(scale, scale, 1);
+             sw.mesh.position.addScaledVector(sw.direction, delta * 60);
+          } else {
+             // Omni Sphere (360)
+             sw.mesh.scale.set(scale, scale, scale);
+             // Omni shockwaves don't translate fast, they expand fast
+          }
+
+          const opacity = Math.max(0, 0.9 - (sw.life * 0.4));
+          (sw.mesh.material as THREE.Material).opacity = opacity;
+          sw.light.intensity = opacity * 4;
+
+          if (sw.life > 2.5) shockwaves.release(sw);
+      }
+
+      // Update Particles
+      for (let i = particles.active.length - 1; i >= 0; i--) {
+        const p = particles.active[i];
+        p.life -= delta * 2.0;
+        p.mesh.position.addScaledVector(p.velocity, delta * 8);
+        p.mesh.rotation.x += delta * 5;
+        (p.mesh.material as THREE.Material).opacity = p.life;
+        if (p.life <= 0) particles.release(p);
+      }
+
+      // Update Damage Texts
+      for (let i = damageTexts.active.length - 1; i >= 0; i--) {
+          const dt = damageTexts.active[i];
+          dt.life -= delta * 1.0;
+          dt.mesh.position.addScaledVector(dt.velocity, delta);
+          dt.mesh.quaternion.copy(camera.quaternion); // Billboard
+          (dt.mesh.material as THREE.Material).opacity = dt.life;
+          if (dt.life <= 0) damageTexts.release(dt);
+      }
+  };
+
+  const clearEffects = () => {
+      effectPools.forEach(pool => pool.releaseAll());
+      unibeam.visible = false;
+      unibeamCharge.visible = false;
+      shakeIntensity = 0;
+      muzzleFlash = 0;
+      muzzleLight.intensity = 0;
+  };
+
+  return {
+    camera,
+    frame: (world, events, delta) => {
+      syncCamera(world, delta);
+      events.forEach(playEvent);
+      syncEnemies(world, delta);
+      syncBoss(world, delta);
+      syncProjectiles(world);
+      syncPickups(world);
+      syncUnibeam(world);
+      updateEffects(delta);
+      renderer.render(scene, camera);
+    },
+    resize: (width, height) => {
+      camera.aspect = width / height;
+      camera.updateProjectionMatrix();
+      renderer.setSize(width, height);
+    },
+    reset: (seed) => {
+      clearEffects();
+      random = createStream(seed, 'cosmetic');
+    },
+    dispose: () => {
+      clearEffects();
+      bossView?.dispose();
+      bossView = null;
+      // Pooled effects stay in the scene graph, so this also frees their own geometries and materials
+      scene.traverse(obj => {
+        const { geometry, material } = obj as THREE.Mesh;
+        geometry?.dispose();
+        (Array.isArray(material) ? material : material ? [material] : []).forEach(disposeMaterial);
+      });
+      // Templates that are only ever cloned are not in the scene graph
+      Object.values(materials).forEach(disposeMaterial);
+      Object.values(geometries).forEach(g => g.dispose());
+      glyphs.texture.dispose();
+      enemyModels.dispose();
+      enemyViews.clear();
+      projectileViews.clear();
+      pickupViews.clear();
+
+      renderer.dispose();
+      if (renderer.domElement.parentElement === container) container.removeChild(renderer.domElement);
+    }
+  };
+};
@@ -0,0 +1,239 @@
+import { HandAction, HandSide, HeldAction, InputAction, Strafe } from '../input/types';
+import type { ScriptedWave } from './waveScript';
+
+// --- Headless Simulation Types ---
+// Plain data only: no three.js objects, so the world can be stepped and inspected in Node.
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export type GameStatus = 'menu' | 'playing' | 'paused' | 'gameover';
+export type ShieldStatus = 'ready' | 'active' | 'cooldown';
+export type UnibeamStatus = 'idle' | 'charging' | 'firing';
+export type OverloadStatus = 'ready' | 'cooldown';
+
+// Which muzzle a repulsor shot leaves from; 'primary' is the single-cursor aim
+export type FiringHand = HandSide | 'primary';
+
+export type EnemyArchetypeId = 'drone' | 'armored' | 'splitter' | 'shard' | 'kamikaze' | 'zigzagger' | 'gunship';
+
+export type PickupKind = 'repair' | 'beam_charge' | 'shield' | 'rapid_fire' | 'focus';
+// Pickups whose effect lasts a while rather than landing at once
+export type BuffKind = Extract<PickupKind, 'shield' | 'rapid_fire' | 'focus'>;
+
+export type UpgradeId = 'servos' | 'targeting' | 'capacitor' | 'regen' | 'plating';
+// Level bought of each upgrade; left out means not bought
+export type Loadout = Partial<Record<UpgradeId, number>>;
+
+// The player's effective stats: the stock constants with the loadout's upgrades applied
+export interface SuitStats {
+  repulsorCooldownMs: number;
+  maxBeamCharges: number;
+  beamRegenMs: number;
+  damageTaken: number; // Multiplier on incoming damage
+  aimAssist: number; // Extra units on enemy hitboxes for repulsor shots
+}
+
+export interface Enemy {
+  id: string;
+  archetype: EnemyArchetypeId; // See archetypes.ts
+  position: Vec3;
+  velocity: Vec3; // Physics velocity for smooth steering
+  hp: number;
+  maxHp: number;
+  wobbleOffset: number; // Phase of the zig-zag weave
+  speedOffset: number;
+  speedScale: number; // Multiplier from the spawn group; 1 unless a wave script says otherwise
+  nextShotAt: number; // World ms when an armed enemy may start charging its next shot
+  fireAt: number | null; // While charging (the visible telegraph): world ms when the shot leaves
+}
+
+export interface Projectile {
+  id: string;
+  position: Vec3;
+  velocity: Vec3;
+  damage: number;
+  expiresAt: number; // World ms
+}
+
+// Dropped by a destroyed enemy; hangs where it fell until collected or expired
+export interface Pickup {
+  id: string;
+  kind: PickupKind;
+  position: Vec3;
+  aimableAt: number; // World ms from when aiming at it collects it
+  expiresAt: number; // World ms
+}
+
+export interface Buff {
+  kind: BuffKind;
+  until: number; // World ms
+  durationMs: number; // In full, for the HUD's countdown
+}
+
+export interface BossPart {
+  id: string; // Unique across the world, like enemy IDs
+  offset: Vec3;
+  radius: number;
+  weakPoint: boolean;
+  hp: number; // Weak points only; 0 once shot off
+  maxHp: number;
+}
+
+export interface Boss {
+  id: string;
+  definition: string; // ID in bosses.ts
+  position: Vec3;
+  hp: number;
+  maxHp: number;
+  phase: number; // Index into the definition's phases
+  immuneUntil: number; // World ms
+  nextVolleyAt: number;
+  fireAt: number | null; // While a volley charges
+  nextSummonAt: number;
+  parts: BossPart[];
+}
+
+export interface Player {
+  position: Vec3;
+  velocity: Vec3; // Strafing only; forward flight is constant
+  yaw: number; // Radians; parallax look toward the cursor
+  pitch: number;
+}
+
+export interface World {
+  status: GameStatus;
+  seed: number; // Run seed; gameplay randomness is derived from it
+  time: number; // Simulated ms since the run started; all cooldowns use this clock
+  resumeInMs: number | null; // Countdown while paused and about to resume; null while held
+  health: number;
+  score: number;
+  stats: SuitStats; // Refreshed from the loadout as each wave starts
+  wave: number;
+  waveTime: number; // Seconds into the current wave
+  wavePlan: ScriptedWave; // From the wave script, or generated past its end
+  groupSpawns: number[]; // Per group of wavePlan: how often it has spawned this wave
+  groupSpawnedAt: number[]; // Per group: waveTime of its last spawn, which its next repeat counts from
+  waveKills: number; // Enemies the player destroyed this wave
+  beamCharges: number;
+  beamRegenMs: number;
+  beamChargeMs: number; // How long the unibeam has been held toward firing; 0 while idle
+  beamUntil: number; // World ms when the firing unibeam cuts out
+  nextBeamTickAt: number;
+  beamTarget: Vec3 | null; // Far end of the beam while it fires
+  lastOverloadTime: number;
+  combo: number; // Hits in the current chain; 0 when there is none
+  comboExpiresAt: number; // World ms when the chain breaks without another hit
+  waveDamaged: boolean; // Armor lost this wave, which forfeits the no-damage bonus
+  shieldUntil: number;
+  lastShieldTime: number;
+  lastShotTime: Record<FiringHand, number>; // Each muzzle has its own repulsor cooldown
+  player: Player;
+  enemies: Enemy[];
+  nextEnemyId: number;
+  projectiles: Projectile[];
+  nextProjectileId: number;
+  pickups: Pickup[];
+  nextPickupId: number;
+  buffs: Buff[]; // Active ones only; collecting one already running restarts it
+  boss: Boss | null; // Present during boss waves; the wave ends when it dies
+  bossesDefeated: number;
+}
+
+// 0-1 screen positions, as produced by the input layer
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+// Everything the simulation needs from the player for one step
+export interface EngineInput {
+  aim: ScreenPoint;
+  hands: Partial<Record<HandSide, ScreenPoint>>; // Per-hand cursors in two-handed mode
+  actions: InputAction[];
+  handActions: HandAction[];
+  strafe: Strafe;
+  held: HeldAction[];
+}
+
+export type ScoreBonus = 'multi_kill' | 'long_range' | 'no_damage';
+
+export type DestroyCause = 'repulsor' | 'unibeam' | 'overload' | 'shield' | 'collision';
+
+// What happened during a step, for the renderer, audio and HUD to react to
+export type GameEvent =
+  | { type: 'shot'; hand: FiringHand; charged: boolean; target: Vec3; hits: number }
+  | { type: 'unibeam_charging' }
+  | { type: 'unibeam'; target: Vec3 } // Starts firing
+  | { type: 'overload'; position: Vec3; kills: number }
+  | { type: 'shield' }
+  | { type: 'enemy_damaged'; id: string; position: Vec3; amount: number; crit: boolean }
+  | { type: 'enemy_charging'; id: string; position: Vec3 }
+  | { type: 'enemy_destroyed'; id: string; archetype: EnemyArchetypeId; position: Vec3; cause: DestroyCause }
+  | { type: 'shield_absorb'; position: Vec3 }
+  | { type: 'player_hit'; position: Vec3; health: number }
+  | { type: 'wave'; wave: number }
+  | { type: 'boss_spawned'; id: string; label: string }
+  | { type: 'boss_phase'; id: string; phase: number; position: Vec3 }
+  | { type: 'boss_part_destroyed'; id: string; position: Vec3 }
+  | { type: 'boss_defeated'; id: string; position: Vec3 }
+  | { type: 'pickup_collected'; id: string; kind: PickupKind; position: Vec3 }
+  | { type: 'buff_expired'; kind: BuffKind }
+  | { type: 'combo_up'; multiplier: number }
+  | { type: 'combo_broken'; hits: number }
+  | { type: 'score_bonus'; bonus: ScoreBonus; points: number; position: Vec3 } // Points after the multiplier
+  | { type: 'resume' }
+  | { type: 'gameover'; score: number };
+
+// HUD-facing combo state
+export interface ComboSnapshot {
+  hits: number;
+  multiplier: number;
+  decay: number; // 1 right after a hit, down to 0 when the chain breaks
+}
+
+// HUD-facing buff timer
+export interface BuffSnapshot {
+  kind: BuffKind;
+  secondsLeft: number;
+  remaining: number; // 1 when collected, down to 0 when it runs out
+}
+
+// HUD-facing boss health
+export interface BossSnapshot {
+  label: string;
+  hp: number;
+  maxHp: number;
+  phase: number;
+  phaseCount: number;
+  immune: boolean;
+}
+
+// What ends the current wave, and how far along it is
+export type WaveObjective =
+  | { type: 'timer'; secondsLeft: number }
+  | { type: 'kills'; remaining: number }
+  | { type: 'clear'; remaining: number } // Alive plus still to spawn
+  | { type: 'boss' };
+
+// HUD-facing summary of the world
+export interface GameSnapshot {
+  status: GameStatus;
+  health: number;
+  score: number;
+  wave: number;
+  beamCharges: number;
+  maxBeamCharges: number;
+  waveLabel: string | null;
+  objective: WaveObjective;
+  shield: ShieldStatus;
+  unibeam: UnibeamStatus;
+  overload: OverloadStatus;
+  resumeIn: number | null; // Seconds left on the resume countdown
+  boss: BossSnapshot | null;
+  combo: ComboSnapshot;
+  buffs: BuffSnapshot[];
+}
@@ -0,0 +1,120 @@
+import {
+  BEAM_REGEN_MS,
+  MAX_BEAM_CHARGES,
+  REPULSOR_COOLDOWN_MS,
+  SCORE_PER_CREDIT
+} from './constants';
+import { Loadout, SuitStats, UpgradeId } from './types';
+
+// --- Suit Upgrades ---
+// A small tech tree bought with credits that carry over between runs. A loadout is the level
+// bought of each upgrade; suitStats turns it into the numbers the engine plays with, in place
+// of the stock constants.
+
+// Each level either adds to the stat or multiplies it
+export interface UpgradeEffect {
+  stat: keyof SuitStats;
+  mode: 'add' | 'scale';
+  perLevel: number;
+}
+
+export interface UpgradeDefinition {
+  id: UpgradeId;
+  label: string;
+  description: string;
+  costs: number[]; // Credits per level; the length is the max level
+  requires?: { id: UpgradeId; level: number };
+  effect: UpgradeEffect;
+}
+
+export const STOCK_STATS: SuitStats = {
+  repulsorCooldownMs: REPULSOR_COOLDOWN_MS,
+  maxBeamCharges: MAX_BEAM_CHARGES,
+  beamRegenMs: BEAM_REGEN_MS,
+  damageTaken: 1,
+  aimAssist: 0
+};
+
+// In tree order: every prerequisite comes before what it unlocks
+export const UPGRADES: UpgradeDefinition[] = [
+  {
+    id: 'servos',
+    label: 'REPULSOR SERVOS',
+    description: '15% shorter repulsor cooldown per level',
+    costs: [100, 250, 500],
+    effect: { stat: 'repulsorCooldownMs', mode: 'scale', perLevel: 0.85 }
+  },
+  {
+    id: 'targeting',
+    label: 'TARGETING ASSIST',
+    description: 'Repulsor shots catch enemies further off the crosshair',
+    costs: [250, 500],
+    requires: { id: 'servos', level: 1 },
+    effect: { stat: 'aimAssist', mode: 'add', perLevel: 0.75 }
+  },
+  {
+    id: 'capacitor',
+    label: 'CAPACITOR CELLS',
+    description: 'One more unibeam charge per level',
+    costs: [150, 400],
+    effect: { stat: 'maxBeamCharges', mode: 'add', perLevel: 1 }
+  },
+  {
+    id: 'regen',
+    label: 'ARC REACTOR TUNING',
+    description: '20% faster unibeam recharge per level',
+    costs: [200, 450],
+    requires: { id: 'capacitor', level: 1 },
+    effect: { stat: 'beamRegenMs', mode: 'scale', perLevel: 0.8 }
+  },
+  {
+    id: 'plating',
+    label: 'ARMOR PLATING',
+    description: '15% less damage from hits per level',
+    costs: [120, 300, 600],
+    effect: { stat: 'damageTaken', mode: 'scale', perLevel: 0.85 }
+  }
+];
+
+const upgrade = (id: UpgradeId) => UPGRADES.find(u => u.id === id)!;
+
+export const suitStats = (loadout: Loadout): SuitStats =>
+  UPGRADES.reduce((stats, { id, effect }) => {
+    const level = loadout[id] ?? 0;
+    const value = effect.mode === 'add' ? stats[effect.stat] + effect.perLevel * level : stats[effect.stat] * effect.perLevel ** level;
+    return { ...stats, [effect.stat]: value };
+  }, STOCK_STATS);
+
+// Credits for the next level, or null once the upgrade is maxed
+export const nextUpgradeCost = (loadout: Loadout, id: UpgradeId): number | null =>
+  upgrade(id).costs[loadout[id] ?? 0] ?? null;
+
+export const upgradeUnlocked = (loadout: Loadout, id: UpgradeId) => {
+  const { requires } = upgrade(id);
+  return !requires || (loadout[requires.id] ?? 0) >= requires.level;
+};
+
+export const canBuyUpgrade = (loadout: Loadout, id: UpgradeId, credits: number) => {
+  const cost = nextUpgradeCost(loadout, id);
+  return cost !== null && cost <= credits && upgradeUnlocked(loadout, id);
+};
+
+// One level more of the upgrade; check canBuyUpgrade first
+export const buyUpgrade = (loadout: Loadout, id: UpgradeId): Loadout => ({ ...loadout, [id]: (loadout[id] ?? 0) + 1 });
+
+// Drops unknown IDs and clamps levels, for loadouts read back from storage
+export const sanitizeLoadout = (data: unknown): Loadout => {
+  if (!data || typeof data !== 'object') return {};
+  const record = data as Record<string, unknown>;
+  return UPGRADES.reduce<Loadout>((loadout, { id, costs }) => {
+    const level = record[id];
+    if (typeof level === 'number' && Number.isInteger(level) && level > 0) loadout[id] = Math.min(level, costs.length);
+    return loadout;
+  }, {});
+};
+
+// Levels bought in all; the suit's Mark number is one more
+export const loadoutLevels = (loadout: Loadout) =>
+  UPGRADES.reduce((sum, { id }) => sum + (loadout[id] ?? 0), 0);
+
+export const creditsForScore = (score: number) => Math.floor(score / SCORE_PER_CREDIT);
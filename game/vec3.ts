@@ -0,0 +1,42 @@
+import { Vec3 } from './types';
+
+// --- Minimal Vector Math ---
+// Immutable helpers over plain { x, y, z } so simulation state stays serializable.
+
+export const vec3 = (x = 0, y = 0, z = 0): Vec3 => ({ x, y, z });
+
+export const add = (a: Vec3, b: Vec3): Vec3 => ({ x: a.x + b.x, y: a.y + b.y, z: a.z + b.z });
+
+export const sub = (a: Vec3, b: Vec3): Vec3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+
+export const scale = (a: Vec3, s: number): Vec3 => ({ x: a.x * s, y: a.y * s, z: a.z * s });
+
+export const dot = (a: Vec3, b: Vec3) => a.x * b.x + a.y * b.y + a.z * b.z;
+
+export const length = (a: Vec3) => Math.hypot(a.x, a.y, a.z);
+
+export const distance = (a: Vec3, b: Vec3) => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+
+export const normalize = (a: Vec3): Vec3 => {
+  const len = length(a);
+  return len > 0 ? scale(a, 1 / len) : vec3();
+};
+
+export const lerp = (a: Vec3, b: Vec3, t: number): Vec3 => ({
+  x: a.x + (b.x - a.x) * t,
+  y: a.y + (b.y - a.y) * t,
+  z: a.z + (b.z - a.z) * t
+});
+
+// Distance along a normalized ray to the first sphere surface it hits, or null on a miss
+export const raySphere = (origin: Vec3, dir: Vec3, center: Vec3, radius: number): number | null => {
+  const oc = sub(center, origin);
+  const along = dot(oc, dir);
+  const d2 = dot(oc, oc) - along * along;
+  if (d2 > radius * radius) return null;
+  const half = Math.sqrt(radius * radius - d2);
+  const near = along - half;
+  const far = along + half;
+  if (far < 0) return null;
+  return near >= 0 ? near : far;
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_WAVE_SCRIPT, parseWaveScript } from './waveScript';
+
+const script = (wave: Record<string, unknown>) => ({ version: 1, waves: [wave] });
+
+const group = { at: 1, archetype: 'drone', count: 2, formation: 'line', lane: 'center' };
+
+const issues = (data: unknown) => {
+  try {
+    parseWaveScript(data);
+  } catch (err) {
+    return (err as Error).message.split('\n').slice(1).map(line => line.trim());
+  }
+  return [];
+};
+
+describe('parseWaveScript', () => {
+  it('accepts the built-in script', () => {
+    expect(DEFAULT_WAVE_SCRIPT.waves.length).toBeGreaterThan(0);
+  });
+
+  it('reports every problem with its path', () => {
+    expect(issues({
+      version: 2,
+      waves: [{ groups: [{ ...group, formation: 'circle', count: 0 }], win: { type: 'timer', seconds: 30 } }]
+    })).toEqual([
+      'version: expected 1, got 2',
+      'waves[0].groups[0].count: must be at least 1, got 0',
+      'waves[0].groups[0].formation: expected one of scatter, line, v, ring, column, got "circle"'
+    ]);
+  });
+
+  it('requires every when a group repeats', () => {
+    expect(issues(script({ groups: [{ ...group, times: 3 }], win: { type: 'timer', seconds: 30 } })))
+      .toEqual(['waves[0].groups[0].every: required when the group spawns more than once']);
+  });
+
+  it('rejects groups larger than maxAlive', () => {
+    expect(issues(script({ maxAlive: 1, groups: [group], win: { type: 'clear' } })))
+      .toEqual(['waves[0].groups[0].count: 2 can never spawn while maxAlive is 1']);
+  });
+
+  it('leaves room for escapes in a kills wave', () => {
+    // 20 enemies spawn; a quarter of them may get away
+    const wave = (count: number) => script({ groups: [{ ...group, times: 10, every: 2 }], win: { type: 'kills', count } });
+    expect(issues(wave(15))).toEqual([]);
+    expect(issues(wave(16))).toHaveLength(1);
+    expect(issues(wave(16))[0]).toMatch(/^waves\[0\]\.win\.count: 16 kills needed but the groups only spawn 20 enemies/);
+  });
+
+  it('rejects unknown bosses and empty clear waves', () => {
+    expect(issues(script({ groups: [], win: { type: 'boss', boss: 'kraken' } }))).toHaveLength(1);
+    expect(issues(script({ groups: [], win: { type: 'clear' } })))
+      .toEqual(['waves[0].win: a clear wave needs at least one group']);
+  });
+});
@@ -0,0 +1,190 @@
+import { MAX_ENEMIES } from './constants';
+import { ENEMY_ARCHETYPES } from './archetypes';
+import { BOSSES } from './bosses';
+import { Random } from './random';
+import { EnemyArchetypeId, Vec3 } from './types';
+import { vec3 } from './vec3';
+import defaultWaves from './defaultWaves.json';
+
+// --- Wave Scripts ---
+// Waves are authored as JSON: timed groups of one enemy type flying in formation down a lane,
+// plus the condition that ends the wave. Waves past the end of a script are generated
+// (generateWave in waves.ts). The built-in script is defaultWaves.json.
+
+export const WAVE_SCRIPT_VERSION = 1;
+export const FORMATION_SPACING = 3;
+// Share of a kills wave's enemies the script should expect to lose to escapes and collisions
+export const KILLS_LOSS_MARGIN = 0.25;
+
+export type Formation = 'scatter' | 'line' | 'v' | 'ring' | 'column';
+export type SpawnLane = 'center' | 'left' | 'right' | 'top' | 'bottom' | 'random';
+
+export interface SpawnGroup {
+  at: number; // Seconds into the wave
+  archetype: EnemyArchetypeId;
+  count: number; // Enemies per spawn
+  formation: Formation;
+  lane: SpawnLane;
+  spacing?: number; // Units between members; FORMATION_SPACING when left out
+  speed?: number; // Multiplier on the members' approach speed
+  times?: number; // How often the group spawns in all; once when left out
+  every?: number; // Seconds between repeats, counted from when the last one actually spawned
+}
+
+export type WinCondition =
+  | { type: 'timer'; seconds: number }
+  // Enemies the player destroys, splits included; also ends once every group is spent and
+  // the field is empty
+  | { type: 'kills'; count: number }
+  | { type: 'clear' } // Every group spawned and every enemy gone
+  | { type: 'boss'; boss?: string }; // Brings in a boss (ID in bosses.ts) and ends when it dies
+
+export interface ScriptedWave {
+  label?: string;
+  maxAlive?: number; // A due group waits while it would take the enemy count past this
+  groups: SpawnGroup[];
+  win: WinCondition;
+}
+
+export interface WaveScript {
+  version: number;
+  waves: ScriptedWave[];
+}
+
+const FORMATIONS: Formation[] = ['scatter', 'line', 'v', 'ring', 'column'];
+const LANES: SpawnLane[] = ['center', 'left', 'right', 'top', 'bottom', 'random'];
+const WIN_TYPES: WinCondition['type'][] = ['timer', 'kills', 'clear', 'boss'];
+
+// Where each lane enters, relative to the player; 'random' rolls a point in the old spawn box
+const LANE_OFFSETS: Record<Exclude<SpawnLane, 'random'>, { x: number; y: number }> = {
+  center: { x: 0, y: 2 },
+  left: { x: -10, y: 2 },
+  right: { x: 10, y: 2 },
+  top: { x: 0, y: 6 },
+  bottom: { x: 0, y: -2 }
+};
+
+export const laneOffset = (lane: SpawnLane, random: Random) =>
+  lane === 'random' ? { x: (random() - 0.5) * 30, y: random() * 8 - 2 } : LANE_OFFSETS[lane];
+
+// Member positions around the lane's entry point; -z is further from the player
+export const formationOffsets = (formation: Formation, count: number, spacing: number, random: Random): Vec3[] =>
+  Array.from({ length: count }, (_, i) => {
+    switch (formation) {
+      case 'line':
+        return vec3((i - (count - 1) / 2) * spacing, 0, 0);
+      case 'column':
+        return vec3(0, 0, -i * spacing);
+      case 'v': {
+        // Leader at the tip, the rest trailing back on alternating arms
+        const rank = Math.ceil(i / 2);
+        return vec3((i % 2 === 1 ? -1 : 1) * rank * spacing, 0, -rank * spacing);
+      }
+      case 'ring': {
+        const radius = count > 1 ? Math.max(spacing, (count * spacing) / (Math.PI * 2)) : 0;
+        const angle = (i / count) * Math.PI * 2;
+        return vec3(Math.cos(angle) * radius, Math.sin(angle) * radius, 0);
+      }
+      case 'scatter':
+        return vec3((random() - 0.5) * spacing * 2, (random() - 0.5) * spacing, (random() - 0.5) * spacing * 2);
+    }
+  });
+
+// --- Validation ---
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+const show = (v: unknown) => (v === undefined ? 'nothing' : JSON.stringify(v));
+
+// Validates parsed JSON as a wave script. Collects every problem rather than stopping at the
+// first, and throws them as one error with a path per line, e.g.
+//   waves[2].groups[0].formation: expected one of scatter, line, v, ring, column, got "circle"
+export const parseWaveScript = (data: unknown): WaveScript => {
+  const issues: string[] = [];
+  const fail = (path: string, message: string) => issues.push(`${path}: ${message}`);
+
+  const number = (obj: Record<string, unknown>, key: string, path: string, min: number, { integer = false, optional = false } = {}) => {
+    const value = obj[key];
+    if (value === undefined && optional) return;
+    if (typeof value !== 'number' || !Number.isFinite(value)) fail(`${path}.${key}`, `expected a number, got ${show(value)}`);
+    else if (integer && !Number.isInteger(value)) fail(`${path}.${key}`, `expected a whole number, got ${value}`);
+    else if (value < min) fail(`${path}.${key}`, `must be at least ${min}, got ${value}`);
+  };
+  const oneOf = (obj: Record<string, unknown>, key: string, path: string, options: readonly string[]) => {
+    const value = obj[key];
+    if (typeof value !== 'string' || !options.includes(value)) {
+      fail(`${path}.${key}`, `expected one of ${options.join(', ')}, got ${show(value)}`);
+    }
+  };
+
+  const checkGroup = (group: unknown, path: string, maxAlive: number) => {
+    if (!isObject(group)) return fail(path, `expected an object, got ${show(group)}`);
+    number(group, 'at', path, 0);
+    oneOf(group, 'archetype', path, Object.keys(ENEMY_ARCHETYPES));
+    number(group, 'count', path, 1, { integer: true });
+    if (typeof group.count === 'number' && group.count > maxAlive) {
+      fail(`${path}.count`, `${group.count} can never spawn while maxAlive is ${maxAlive}`);
+    }
+    oneOf(group, 'formation', path, FORMATIONS);
+    oneOf(group, 'lane', path, LANES);
+    number(group, 'spacing', path, 0, { optional: true });
+    number(group, 'speed', path, 0.1, { optional: true });
+    number(group, 'times', path, 1, { integer: true, optional: true });
+    number(group, 'every', path, 0.1, { optional: true });
+    if (typeof group.times === 'number' && group.times > 1 && group.every === undefined) {
+      fail(`${path}.every`, 'required when the group spawns more than once');
+    }
+  };
+
+  const checkWin = (win: unknown, path: string, groups: unknown[]) => {
+    if (!isObject(win)) return fail(path, `expected an object, got ${show(win)}`);
+    oneOf(win, 'type', path, WIN_TYPES);
+    if (win.type === 'timer') number(win, 'seconds', path, 1);
+    if (win.type === 'kills') {
+      number(win, 'count', path, 1, { integer: true });
+      const total = groups.reduce<number>((sum, g) =>
+        isObject(g) && typeof g.count === 'number' ? sum + g.count * (typeof g.times === 'number' ? g.times : 1) : sum, 0);
+      const reachable = Math.floor(total * (1 - KILLS_LOSS_MARGIN));
+      if (typeof win.count === 'number' && win.count > reachable) {
+        fail(`${path}.count`, `${win.count} kills needed but the groups only spawn ${total} enemies; ` +
+          `allow for losing ${KILLS_LOSS_MARGIN * 100}% of them by asking for at most ${reachable}`);
+      }
+    }
+    if (win.type === 'clear' && groups.length === 0) fail(path, 'a clear wave needs at least one group');
+    if (win.type === 'boss' && win.boss !== undefined) oneOf(win, 'boss', path, BOSSES.map(b => b.id));
+  };
+
+  if (!isObject(data)) {
+    fail('script', `expected an object, got ${show(data)}`);
+  } else {
+    if (data.version !== WAVE_SCRIPT_VERSION) fail('version', `expected ${WAVE_SCRIPT_VERSION}, got ${show(data.version)}`);
+    if (!Array.isArray(data.waves) || data.waves.length === 0) {
+      fail('waves', `expected a non-empty array, got ${show(data.waves)}`);
+    } else {
+      data.waves.forEach((wave, w) => {
+        const path = `waves[${w}]`;
+        if (!isObject(wave)) return fail(path, `expected an object, got ${show(wave)}`);
+        if (wave.label !== undefined && typeof wave.label !== 'string') fail(`${path}.label`, `expected a string, got ${show(wave.label)}`);
+        number(wave, 'maxAlive', path, 1, { integer: true, optional: true });
+        const maxAlive = typeof wave.maxAlive === 'number' ? wave.maxAlive : MAX_ENEMIES;
+        if (!Array.isArray(wave.groups)) {
+          fail(`${path}.groups`, `expected an array, got ${show(wave.groups)}`);
+        } else {
+          wave.groups.forEach((group, g) => checkGroup(group, `${path}.groups[${g}]`, maxAlive));
+        }
+        checkWin(wave.win, `${path}.win`, Array.isArray(wave.groups) ? wave.groups : []);
+      });
+    }
+  }
+
+  if (issues.length > 0) throw new Error(`Invalid wave script:\n${issues.map(issue => `  ${issue}`).join('\n')}`);
+  return data as WaveScript;
+};
+
+// Fetches and validates a script, e.g. one passed as ?waves=/waves/custom.json
+export const loadWaveScript = async (url: string): Promise<WaveScript> => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Wave script ${url}: HTTP ${res.status}`);
+  return parseWaveScript(await res.json());
+};
+
+export const DEFAULT_WAVE_SCRIPT = parseWaveScript(defaultWaves);
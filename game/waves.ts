@@ -0,0 +1,71 @@
+import { BOSS_WAVE_INTERVAL, MAX_ENEMIES, WAVE_DURATION_SEC } from './constants';
+import { Random } from './random';
+import { EnemyArchetypeId } from './types';
+import { Formation, ScriptedWave, SpawnGroup, WaveScript } from './waveScript';
+
+// --- Wave Composition ---
+// Which enemy types a generated wave sends and in what proportion. Scripted waves
+// (waveScript.ts) name their enemies directly; these mixes take over once a script runs out.
+
+// Relative spawn weights; types left out never spawn in that wave
+export type WaveMix = Partial<Record<EnemyArchetypeId, number>>;
+
+export interface WaveDefinition {
+  maxEnemies: number; // Alive at once
+  mix: WaveMix;
+}
+
+// One entry per wave; later waves keep using the last one
+const WAVE_MIXES: WaveMix[] = [
+  { drone: 1 },
+  { drone: 3, armored: 1 },
+  { drone: 3, armored: 1, kamikaze: 1, gunship: 0.5 },
+  { drone: 2, armored: 1, kamikaze: 1, zigzagger: 1, gunship: 0.5 },
+  { drone: 2, armored: 1, kamikaze: 1, zigzagger: 1, splitter: 1, gunship: 1 },
+  { drone: 1, armored: 2, kamikaze: 2, zigzagger: 2, splitter: 1, gunship: 1 }
+];
+
+export const getWaveDefinition = (wave: number): WaveDefinition => ({
+  maxEnemies: Math.min(MAX_ENEMIES, 2 + wave * 2),
+  mix: WAVE_MIXES[Math.min(wave, WAVE_MIXES.length) - 1]
+});
+
+// Weighted pick; `roll` is uniform in [0, 1)
+export const pickArchetype = (mix: WaveMix, roll: number): EnemyArchetypeId => {
+  const entries = (Object.entries(mix) as [EnemyArchetypeId, number][]).filter(([, weight]) => weight > 0);
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  let remaining = roll * total;
+  for (const [id, weight] of entries) {
+    remaining -= weight;
+    if (remaining < 0) return id;
+  }
+  return entries.length > 0 ? entries[entries.length - 1][0] : 'drone';
+};
+
+const GENERATED_FORMATIONS: Formation[] = ['scatter', 'line', 'v', 'ring', 'column'];
+const GENERATED_GROUP_INTERVAL = 3; // Seconds between groups
+const GENERATED_QUIET_SEC = 5; // No new groups this close to the end of the wave
+
+// Procedural stand-in for waves past the end of a script: a timed wave of random groups from
+// the wave's mix, with a boss every BOSS_WAVE_INTERVAL waves
+export const generateWave = (wave: number, random: Random): ScriptedWave => {
+  if (wave % BOSS_WAVE_INTERVAL === 0) return { groups: [], win: { type: 'boss' } };
+
+  const { maxEnemies, mix } = getWaveDefinition(wave);
+  const groups: SpawnGroup[] = [];
+  for (let at = 1; at < WAVE_DURATION_SEC - GENERATED_QUIET_SEC; at += GENERATED_GROUP_INTERVAL) {
+    const formation = GENERATED_FORMATIONS[Math.floor(random() * GENERATED_FORMATIONS.length)];
+    groups.push({
+      at,
+      archetype: pickArchetype(mix, random()),
+      count: formation === 'scatter' ? 1 : Math.min(maxEnemies, 3 + Math.floor(random() * 3)),
+      formation,
+      lane: 'random'
+    });
+  }
+  return { maxAlive: maxEnemies, groups, win: { type: 'timer', seconds: WAVE_DURATION_SEC } };
+};
+
+// The script's entry for a 1-based wave number, or a generated one past its end
+export const planWave = (script: WaveScript, wave: number, random: Random): ScriptedWave =>
+  script.waves[wave - 1] ?? generateWave(wave, random);
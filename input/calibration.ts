@@ -0,0 +1,100 @@
+// --- Per-User Reach Calibration ---
+// Maps the raw (mirrored) fingertip position onto the screen so a player's comfortable
+// reach covers the whole play field, including the edges where enemies spawn.
+
+export interface CalibrationProfile {
+  centerX: number; // Raw position that maps to screen center
+  centerY: number;
+  scaleX: number;
+  scaleY: number;
+  rotation: number; // Radians of camera tilt to undo
+  deadZone: number; // Raw movement below this is treated as tracker jitter
+}
+
+export const DEFAULT_CALIBRATION: CalibrationProfile = {
+  centerX: 0.5,
+  centerY: 0.5,
+  scaleX: 1,
+  scaleY: 1,
+  rotation: 0,
+  deadZone: 0
+};
+
+export const CALIBRATION_STORAGE_KEY = 'calibration';
+
+// Screen points the wizard asks the player to reach, clockwise from top-left
+export const CALIBRATION_TARGETS = [
+  { x: 0.05, y: 0.05 },
+  { x: 0.95, y: 0.05 },
+  { x: 0.95, y: 0.95 },
+  { x: 0.05, y: 0.95 }
+];
+
+export interface CornerSample {
+  x: number; // Mean raw position while the player held the corner
+  y: number;
+  spread: number; // Standard deviation of the raw samples
+}
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+export const applyCalibration = (profile: CalibrationProfile, raw: { x: number; y: number }) => {
+  const dx = raw.x - profile.centerX;
+  const dy = raw.y - profile.centerY;
+  const cos = Math.cos(-profile.rotation);
+  const sin = Math.sin(-profile.rotation);
+  return {
+    x: clamp01(0.5 + (dx * cos - dy * sin) * profile.scaleX),
+    y: clamp01(0.5 + (dx * sin + dy * cos) * profile.scaleY)
+  };
+};
+
+// Builds a profile from the four corner samples (same order as CALIBRATION_TARGETS)
+export const fitCalibration = (corners: CornerSample[], compensateRotation: boolean): CalibrationProfile => {
+  const [tl, tr, br, bl] = corners;
+  const centerX = (tl.x + tr.x + br.x + bl.x) / 4;
+  const centerY = (tl.y + tr.y + br.y + bl.y) / 4;
+
+  const rotation = compensateRotation
+    ? (Math.atan2(tr.y - tl.y, tr.x - tl.x) + Math.atan2(br.y - bl.y, br.x - bl.x)) / 2
+    : 0;
+
+  // Measure the reach box in the de-rotated frame
+  const cos = Math.cos(-rotation);
+  const sin = Math.sin(-rotation);
+  const local = corners.map(c => {
+    const dx = c.x - centerX;
+    const dy = c.y - centerY;
+    return { x: dx * cos - dy * sin, y: dx * sin + dy * cos };
+  });
+  const reachWidth = ((local[1].x - local[0].x) + (local[2].x - local[3].x)) / 2;
+  const reachHeight = ((local[3].y - local[0].y) + (local[2].y - local[1].y)) / 2;
+
+  const targetWidth = CALIBRATION_TARGETS[1].x - CALIBRATION_TARGETS[0].x;
+  const targetHeight = CALIBRATION_TARGETS[3].y - CALIBRATION_TARGETS[0].y;
+
+  const meanSpread = corners.reduce((sum, c) => sum + c.spread, 0) / corners.length;
+
+  return {
+    centerX,
+    centerY,
+    // Guard against degenerate input (e.g. the same corner captured twice)
+    scaleX: reachWidth > 0.05 ? targetWidth / reachWidth : 1,
+    scaleY: reachHeight > 0.05 ? targetHeight / reachHeight : 1,
+    rotation,
+    deadZone: Math.min(0.02, meanSpread * 2)
+  };
+};
+
+// Wraps applyCalibration with the jitter dead zone, which needs the last accepted position
+export const createCalibratedMapper = (profile: CalibrationProfile) => {
+  let anchor: { x: number; y: number } | null = null;
+
+  return (raw: { x: number; y: number }) => {
+    if (anchor && Math.hypot(raw.x - anchor.x, raw.y - anchor.y) < profile.deadZone) {
+      return applyCalibration(profile, anchor);
+    }
+    anchor = { x: raw.x, y: raw.y };
+    return applyCalibration(profile, raw);
+  };
+};
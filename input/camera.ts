@@ -0,0 +1,86 @@
+// --- Camera Selection & Stream Status ---
+
+export interface CameraSettings {
+  deviceId: string | null; // null = browser default
+  width: number;
+  height: number;
+  frameRate: number;
+  mirror: boolean; // Preview and aim behave like a mirror (front-facing webcams)
+}
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  width: 640,
+  height: 480,
+  frameRate: 30,
+  mirror: true
+};
+
+export const CAMERA_STORAGE_KEY = 'camera';
+
+export const CAMERA_RESOLUTIONS = [
+  { width: 320, height: 240 },
+  { width: 640, height: 480 },
+  { width: 1280, height: 720 }
+];
+
+export const CAMERA_FRAME_RATES = [15, 24, 30, 60];
+
+export type CameraStatus = 'starting' | 'live' | 'denied' | 'no_device' | 'busy' | 'ended' | 'error';
+
+// What the player sees for each state, with the action that fixes it
+export const CAMERA_STATUS_INFO: Record<CameraStatus, { label: string; hint: string }> = {
+  starting: { label: 'STARTING', hint: 'Waiting for the camera...' },
+  live: { label: 'LIVE', hint: '' },
+  denied: { label: 'ACCESS DENIED', hint: 'Allow camera access in the address bar, then press RETRY.' },
+  no_device: { label: 'NO CAMERA', hint: 'Connect a camera or pick another device, then press RETRY.' },
+  busy: { label: 'DEVICE BUSY', hint: 'Close other apps or tabs using the camera, then press RETRY.' },
+  ended: { label: 'DISCONNECTED', hint: 'The camera stopped sending video. Reconnect it and press RETRY.' },
+  error: { label: 'CAMERA ERROR', hint: 'The camera could not be started. Try another device or resolution.' }
+};
+
+export const classifyCameraError = (err: unknown): CameraStatus => {
+  const name = (err as { name?: string })?.name;
+  switch (name) {
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return 'denied';
+    case 'NotFoundError':
+    case 'OverconstrainedError':
+      return 'no_device';
+    case 'NotReadableError':
+    case 'AbortError':
+      return 'busy';
+    default:
+      return 'error';
+  }
+};
+
+export const openCamera = (settings: CameraSettings) => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    return Promise.reject(Object.assign(new Error('getUserMedia unsupported'), { name: 'NotFoundError' }));
+  }
+  return navigator.mediaDevices.getUserMedia({
+    video: {
+      deviceId: settings.deviceId ? { exact: settings.deviceId } : undefined,
+      width: { ideal: settings.width },
+      height: { ideal: settings.height },
+      frameRate: { ideal: settings.frameRate }
+    }
+  });
+};
+
+export const listCameras = async () => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'videoinput');
+};
+
+// e.g. "640x480@30" from what the browser actually granted
+export const describeStream = (stream: MediaStream) => {
+  const track = stream.getVideoTracks()[0];
+  if (!track) return '';
+  const { width, height, frameRate } = track.getSettings();
+  if (!width || !height) return '';
+  return `${width}x${height}${frameRate ? `@${Math.round(frameRate)}` : ''}`;
+};
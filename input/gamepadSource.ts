@@ -0,0 +1,75 @@
+import { InputAction, InputSample, InputSource } from './types';
+
+const STICK_DEAD_ZONE = 0.15;
+const AIM_SPEED = 1.2; // Screen widths per second at full stick deflection
+
+// Standard Gamepad mapping button indices
+const BUTTON_A = 0;
+const BUTTON_B = 1;
+const BUTTON_X = 2;
+const BUTTON_Y = 3;
+const BUTTON_LT = 6;
+const BUTTON_RT = 7;
+const BUTTON_START = 9;
+
+const applyDeadZone = (value: number) => {
+  if (Math.abs(value) < STICK_DEAD_ZONE) return 0;
+  return (value - Math.sign(value) * STICK_DEAD_ZONE) / (1 - STICK_DEAD_ZONE);
+};
+
+// Reads the first connected pad via the Gamepad API. The left stick nudges the aim
+// relative to where it is, so the pad can share the cursor with mouse and camera.
+export const createGamepadSource = (getAim: () => { x: number; y: number }): InputSource => {
+  let lastPollTime = 0;
+  let previousPressed: boolean[] = [];
+
+  const isPressed = (pad: Gamepad, index: number) => !!pad.buttons[index]?.pressed;
+  const wasPressed = (index: number) => !!previousPressed[index];
+
+  return {
+    id: 'gamepad',
+    label: 'GAMEPAD',
+    start: () => {
+      lastPollTime = 0;
+      previousPressed = [];
+    },
+    stop: () => {},
+    poll: (now: number) => {
+      if (typeof navigator.getGamepads !== 'function') return null;
+      const pad = navigator.getGamepads().find((p): p is Gamepad => !!p);
+      if (!pad) return null;
+
+      const dt = lastPollTime ? Math.min((now - lastPollTime) / 1000, 0.1) : 0;
+      lastPollTime = now;
+
+      const actions: InputAction[] = [];
+      // Repulsor repeats while held (the weapon cooldown throttles it) and the unibeam is held;
+      // the rest are edge-triggered
+      if (isPressed(pad, BUTTON_A) || isPressed(pad, BUTTON_RT)) actions.push('repulsor');
+      const beamDown = isPressed(pad, BUTTON_B) || isPressed(pad, BUTTON_LT);
+      const beamWasDown = wasPressed(BUTTON_B) || wasPressed(BUTTON_LT);
+      if (isPressed(pad, BUTTON_Y) && !wasPressed(BUTTON_Y)) actions.push('shield');
+      if (isPressed(pad, BUTTON_X) && !wasPressed(BUTTON_X)) actions.push('overload');
+      if (isPressed(pad, BUTTON_START) && !wasPressed(BUTTON_START)) actions.push('pause');
+      previousPressed = pad.buttons.map(b => b.pressed);
+
+      const sample: InputSample = { actions, held: beamDown ? ['unibeam'] : [] };
+      // Right stick strafes
+      const sx = applyDeadZone(pad.axes[2] ?? 0);
+      const sy = applyDeadZone(pad.axes[3] ?? 0);
+      if (sx !== 0 || sy !== 0) sample.strafe = { x: sx, y: -sy };
+      const dx = applyDeadZone(pad.axes[0] ?? 0);
+      const dy = applyDeadZone(pad.axes[1] ?? 0);
+      if (dx !== 0 || dy !== 0) {
+        const current = getAim();
+        sample.aim = {
+          x: Math.min(1, Math.max(0, current.x + dx * AIM_SPEED * dt)),
+          y: Math.min(1, Math.max(0, current.y + dy * AIM_SPEED * dt))
+        };
+      }
+
+      if (!sample.aim && !sample.strafe && actions.length === 0 && !beamDown && !beamWasDown) return null;
+      return sample;
+    }
+  };
+};
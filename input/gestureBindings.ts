@@ -0,0 +1,57 @@
+import { InputAction } from './types';
+
+// --- Gesture → Action Bindings ---
+
+// Categories the canned MediaPipe gesture model can report (besides "None"), plus our custom ones
+export const GESTURE_CATEGORIES = [
+  { name: 'Closed_Fist', label: 'Closed Fist', short: 'FIST' },
+  { name: 'Open_Palm', label: 'Open Palm', short: 'PALM' },
+  { name: 'Pointing_Up', label: 'Pointing Up', short: 'POINT' },
+  { name: 'Victory', label: 'Victory', short: 'V-SIGN' },
+  { name: 'Thumb_Up', label: 'Thumb Up', short: 'THUMB UP' },
+  { name: 'Thumb_Down', label: 'Thumb Down', short: 'THUMB DN' },
+  { name: 'ILoveYou', label: 'I Love You', short: 'ILY' },
+  // Classified from landmarks in landmarkGestures.ts
+  { name: 'Pinch', label: 'Pinch', short: 'PINCH' },
+  { name: 'Finger_Gun', label: 'Finger Gun', short: 'GUN' },
+  { name: 'Wrist_Flick', label: 'Wrist Flick', short: 'FLICK' }
+];
+
+export type GestureBinding = InputAction | 'none';
+export type GestureBindings = Record<string, GestureBinding>;
+
+export const DEFAULT_GESTURE_BINDINGS: GestureBindings = {
+  Closed_Fist: 'repulsor',
+  Open_Palm: 'unibeam',
+  Pointing_Up: 'none',
+  Victory: 'shield',
+  Thumb_Up: 'none',
+  Thumb_Down: 'none',
+  ILoveYou: 'overload',
+  Pinch: 'charged_repulsor',
+  Finger_Gun: 'repulsor',
+  Wrist_Flick: 'none'
+};
+
+export const GESTURE_BINDINGS_STORAGE_KEY = 'gesture_bindings';
+
+// Actions a gesture may be bound to, with their command panel / reticle presentation
+export const BINDABLE_ACTIONS: { action: GestureBinding; label: string; reticle: string; dot: string }[] = [
+  { action: 'repulsor', label: 'FIRE', reticle: 'REPULSOR', dot: 'bg-red-500 rounded-sm shadow-[0_0_5px_red]' },
+  { action: 'charged_repulsor', label: 'CHARGE SHOT', reticle: 'CHARGING', dot: 'bg-orange-400 rounded-sm shadow-[0_0_5px_#fb923c]' },
+  { action: 'unibeam', label: 'UNIBEAM', reticle: 'UNIBEAM', dot: 'bg-blue-400 rounded-sm shadow-[0_0_5px_#3b82f6]' },
+  { action: 'shield', label: 'SHIELD', reticle: 'SHIELD', dot: 'bg-emerald-400 rounded-sm shadow-[0_0_5px_#34d399]' },
+  { action: 'overload', label: 'OVERLOAD', reticle: 'OVERLOAD', dot: 'bg-violet-400 rounded-sm shadow-[0_0_5px_#a78bfa]' },
+  { action: 'pause', label: 'PAUSE', reticle: 'PAUSE', dot: 'bg-yellow-400 rounded-sm shadow-[0_0_5px_#facc15]' },
+  { action: 'none', label: 'UNBOUND', reticle: 'TRACKING', dot: 'border border-slate-600 rounded-sm' }
+];
+
+export const getActionInfo = (action: GestureBinding) =>
+  BINDABLE_ACTIONS.find(a => a.action === action) ?? BINDABLE_ACTIONS[BINDABLE_ACTIONS.length - 1];
+
+export const getGestureLabel = (name: string) =>
+  GESTURE_CATEGORIES.find(g => g.name === name)?.label ?? name;
+
+// Gestures currently bound to an action, in GESTURE_CATEGORIES order
+export const getBoundGestures = (bindings: GestureBindings, action: GestureBinding) =>
+  GESTURE_CATEGORIES.filter(g => bindings[g.name] === action);
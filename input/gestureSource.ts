@@ -0,0 +1,197 @@
+import { GestureResults, HandAction, HandSide, InputAction, InputSample, InputSource, Landmark, TrackedHand, TriggeredAction } from './types';
+import { GestureBindings } from './gestureBindings';
+import {
+  ActionTriggers,
+  DEFAULT_GESTURE_FILTER,
+  GestureFilterConfig,
+  createActionTrigger,
+  createGestureStateMachine
+} from './gestureStateMachine';
+
+const GESTURE_POLL_MS = 40;
+const PALMS_TOGETHER_DISTANCE = 0.2; // Max raw wrist separation for the two-handed unibeam
+
+// Produces recognizer output for a poll, or null when no frame is available
+export type RecognizeFn = (now: number) => GestureResults | null;
+
+interface GestureSourceOptions {
+  recognize: RecognizeFn;
+  getBindings: () => GestureBindings;
+  triggers: ActionTriggers;
+  filter?: GestureFilterConfig;
+  // Post-processes raw results, e.g. adding landmark-classified custom gestures
+  classify?: (results: GestureResults, now: number) => GestureResults;
+  onResults?: (now: number, results: GestureResults) => void;
+  // Receives the classified results the actions are derived from, e.g. for debug overlays
+  onClassified?: (now: number, results: GestureResults) => void;
+  // Maps the raw mirrored fingertip position to screen space (e.g. a calibration profile)
+  mapAim?: (raw: { x: number; y: number }, side?: HandSide) => { x: number; y: number };
+  isDualHand?: () => boolean;
+  // False when the camera image is already mirrored (or faces away), so x is used as-is
+  isMirrored?: () => boolean;
+}
+
+// Debounced gesture streams: the single-hand cursor, each hand in two-handed mode,
+// and the synthetic "palms together" pose, which only ever holds the unibeam
+type GestureStream = 'primary' | HandSide | 'palms';
+type TriggerStream = Exclude<GestureStream, 'palms'>;
+const STREAMS: GestureStream[] = ['primary', 'left', 'right', 'palms'];
+const TRIGGER_STREAMS: TriggerStream[] = ['primary', 'left', 'right'];
+
+// Fingertip landmark to 0-1 screen position before calibration, flipping x to act like a mirror
+export const toRawAim = (pointer: Landmark, mirrored: boolean = true) => ({
+  x: mirrored ? 1.0 - pointer.x : pointer.x,
+  y: pointer.y
+});
+
+// The part of the MediaPipe GestureRecognizer that recognizeFromVideo calls
+export interface VideoRecognizer {
+  recognizeForVideo: (video: HTMLVideoElement, timestamp: number) => GestureResults;
+}
+
+// Runs the MediaPipe GestureRecognizer against the live camera feed
+export const recognizeFromVideo = (
+  getVideo: () => HTMLVideoElement | null,
+  getRecognizer: () => VideoRecognizer | null
+): RecognizeFn => (now: number) => {
+  const video = getVideo();
+  const recognizer = getRecognizer();
+  if (!video || !recognizer || video.readyState !== 4) return null;
+  return recognizer.recognizeForVideo(video, now);
+};
+
+// Turns recognizer output (live or replayed) into aim and actions
+export const createGestureSource = ({
+  recognize,
+  getBindings,
+  triggers,
+  filter = DEFAULT_GESTURE_FILTER,
+  classify,
+  onResults,
+  onClassified,
+  mapAim,
+  isDualHand,
+  isMirrored = () => true
+}: GestureSourceOptions): InputSource => {
+  let lastPollTime = 0;
+
+  const machines = {} as Record<GestureStream, ReturnType<typeof createGestureStateMachine>>;
+  const fires = {} as Record<TriggerStream, ReturnType<typeof createActionTrigger>>;
+  const resetStreams = () => {
+    STREAMS.forEach(stream => { machines[stream] = createGestureStateMachine(filter); });
+    TRIGGER_STREAMS.forEach(stream => { fires[stream] = createActionTrigger(triggers); });
+  };
+  resetStreams();
+
+  const toScreen = (pointer: Landmark, side?: HandSide) => {
+    const raw = toRawAim(pointer, isMirrored());
+    return mapAim ? mapAim(raw, side) : raw;
+  };
+
+  const boundAction = (gesture: string): InputAction | null => {
+    const action = getBindings()[gesture];
+    return action && action !== 'none' ? action : null;
+  };
+
+  // The unibeam is held, not triggered; everything else goes through the stream's trigger
+  const triggered = (action: InputAction | null): TriggeredAction | null => (action === 'unibeam' ? null : action);
+
+  // Each hand aims and fires its own repulsor; a two-palm push holds the unibeam
+  const pollBothHands = (results: GestureResults, now: number, sample: InputSample) => {
+    const hands: TrackedHand[] = [];
+    const handActions: HandAction[] = [];
+    const wrists: { x: number; y: number }[] = [];
+    const scores: number[] = [];
+    const seen = new Set<HandSide>();
+
+    (results.landmarks ?? []).slice(0, 2).forEach((landmarks, i) => {
+      // The recognizer assumes a mirrored image, so on a raw webcam feed its "Left" is the player's right hand
+      const label = results.handedness?.[i]?.[0]?.categoryName;
+      let side: HandSide = (label === 'Left') === isMirrored() ? 'right' : 'left';
+      if (seen.has(side)) side = side === 'left' ? 'right' : 'left';
+      seen.add(side);
+
+      const top = results.gestures[i]?.[0];
+      const state = machines[side].update(top?.categoryName ?? 'None', top?.score ?? 0, now);
+      const pointer = landmarks[8];
+      const aim = toScreen(pointer, side);
+      hands.push({ side, x: aim.x, y: aim.y, gesture: state.gesture });
+      wrists.push({ x: landmarks[0].x, y: landmarks[0].y });
+      scores.push(top?.score ?? 0);
+
+      // Unibeam is reserved for the two-palm pose in this mode
+      const action = triggered(boundAction(state.gesture));
+      if (!fires[side](state, action)) return;
+      if (action === 'repulsor' || action === 'charged_repulsor') handActions.push({ side, action });
+      else if (action) sample.actions.push(action);
+    });
+
+    // Hands that dropped out of frame release their gestures
+    (['left', 'right'] as HandSide[]).forEach(side => {
+      if (!seen.has(side)) machines[side].update('None', 1, now);
+    });
+
+    const palmsTogether = hands.length === 2 &&
+      hands.every(h => boundAction(h.gesture) === 'unibeam') &&
+      Math.hypot(wrists[0].x - wrists[1].x, wrists[0].y - wrists[1].y) < PALMS_TOGETHER_DISTANCE;
+    const palms = machines.palms.update(palmsTogether ? 'Palms_Together' : 'None', palmsTogether ? Math.min(...scores) : 1, now);
+    sample.held = palms.gesture === 'None' ? [] : ['unibeam'];
+
+    hands.sort((a, b) => a.side.localeCompare(b.side));
+    sample.hands = hands;
+    sample.handActions = handActions;
+    if (hands.length > 0) {
+      sample.detected = true;
+      sample.gesture = hands[0].gesture;
+      sample.aim = {
+        x: hands.reduce((sum, h) => sum + h.x, 0) / hands.length,
+        y: hands.reduce((sum, h) => sum + h.y, 0) / hands.length
+      };
+    }
+  };
+
+  const pollOneHand = (results: GestureResults, now: number, sample: InputSample) => {
+    const landmarks = results.landmarks?.[0];
+    const top = landmarks ? results.gestures[0]?.[0] : undefined;
+    // Losing the hand counts as a confident "None" so held gestures release normally
+    const state = machines.primary.update(top?.categoryName ?? 'None', landmarks ? top?.score ?? 0 : 1, now);
+    sample.gesture = state.gesture;
+
+    if (landmarks) {
+      const pointer = landmarks[8];
+      sample.detected = true;
+      sample.aim = toScreen(pointer);
+    }
+
+    const action = boundAction(state.gesture);
+    sample.held = action === 'unibeam' ? ['unibeam'] : [];
+    const trigger = triggered(action);
+    if (fires.primary(state, trigger) && trigger) sample.actions.push(trigger);
+  };
+
+  return {
+    id: 'gesture',
+    label: 'CAMERA',
+    start: () => {
+      lastPollTime = 0;
+      resetStreams();
+    },
+    stop: () => {},
+    poll: (now: number) => {
+      if (now - lastPollTime <= GESTURE_POLL_MS) return null;
+
+      const raw = recognize(now);
+      if (!raw) return null;
+      lastPollTime = now;
+      // Recorders get the untouched model output; custom gestures are re-derived on replay
+      onResults?.(now, raw);
+      const results = classify ? classify(raw, now) : raw;
+      onClassified?.(now, results);
+
+      const sample: InputSample = { detected: false, gesture: 'None', actions: [], hands: [] };
+      if (isDualHand?.()) pollBothHands(results, now, sample);
+      else pollOneHand(results, now, sample);
+      return sample;
+    }
+  };
+};
@@ -0,0 +1,106 @@
+import { TriggeredAction } from './types';
+
+// --- Gesture Debouncing & Trigger Modes ---
+// The recognizer is polled every 40ms and a single misclassified frame used to be enough
+// to spend a beam charge. Each hand's gesture stream now passes through a small state
+// machine: a gesture must clear a confidence threshold for several polls before it is
+// "pressed", and must be absent for several polls before it is "released".
+
+// How an action fires from a debounced gesture:
+//   press  – once, when the gesture is first recognized
+//   hold   – on press and again on every poll while the gesture is held
+//   charge – once, after the gesture has been held for chargeMs
+export type TriggerMode = 'press' | 'hold' | 'charge';
+
+export interface ActionTrigger {
+  mode: TriggerMode;
+  chargeMs?: number;
+}
+
+// Held actions (the unibeam) are not triggered: they last as long as the gesture does
+export type ActionTriggers = Record<TriggeredAction, ActionTrigger>;
+
+export interface GestureFilterConfig {
+  enterScore: number; // Confidence needed to start recognizing a gesture
+  exitScore: number; // Confidence below which a held gesture counts as gone (hysteresis)
+  pressPolls: number; // Consecutive polls a new gesture must persist before it is pressed
+  releasePolls: number; // Consecutive polls a held gesture must be missing before release
+}
+
+export const DEFAULT_GESTURE_FILTER: GestureFilterConfig = {
+  enterScore: 0.6,
+  exitScore: 0.4,
+  pressPolls: 2,
+  releasePolls: 3
+};
+
+export interface GestureState {
+  gesture: string; // Debounced gesture, 'None' when nothing is held
+  pressed: boolean; // True only on the poll the gesture became active
+  released: string | null; // Gesture that ended on this poll, if any
+  heldMs: number;
+}
+
+export const createGestureStateMachine = (config: GestureFilterConfig = DEFAULT_GESTURE_FILTER) => {
+  let stable = 'None';
+  let pressTime = 0;
+  let pending = 'None';
+  let pendingPolls = 0;
+
+  const update = (category: string, score: number, now: number): GestureState => {
+    const threshold = category === stable ? config.exitScore : config.enterScore;
+    const candidate = score >= threshold ? category : 'None';
+    let pressed = false;
+    let released: string | null = null;
+
+    if (candidate === stable) {
+      pending = stable;
+      pendingPolls = 0;
+    } else {
+      pendingPolls = candidate === pending ? pendingPolls + 1 : 1;
+      pending = candidate;
+
+      const required = stable === 'None' ? config.pressPolls : config.releasePolls;
+      if (pendingPolls >= required) {
+        if (stable !== 'None') released = stable;
+        stable = candidate;
+        pressTime = now;
+        pressed = stable !== 'None';
+        pendingPolls = 0;
+      }
+    }
+
+    return { gesture: stable, pressed, released, heldMs: stable === 'None' ? 0 : now - pressTime };
+  };
+
+  const reset = () => {
+    stable = 'None';
+    pending = 'None';
+    pendingPolls = 0;
+  };
+
+  return { update, reset };
+};
+
+// Decides whether the action bound to a debounced gesture fires on this poll.
+// chargeFired is per-stream state so a charge action fires only once per hold.
+export const createActionTrigger = (triggers: ActionTriggers) => {
+  let chargeFired = false;
+
+  return (state: GestureState, action: TriggeredAction | null): boolean => {
+    if (state.pressed) chargeFired = false;
+    if (!action || state.gesture === 'None') return false;
+
+    const trigger = triggers[action];
+    switch (trigger.mode) {
+      case 'press':
+        return state.pressed;
+      case 'hold':
+        return true;
+      case 'charge':
+        if (chargeFired || state.heldMs < (trigger.chargeMs ?? 0)) return false;
+        chargeFired = true;
+        return true;
+    }
+  };
+};
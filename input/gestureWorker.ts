@@ -0,0 +1,76 @@
+import type { Category, GestureRecognizer, GestureRecognizerResult } from '@mediapipe/tasks-vision';
+import { createGestureRecognizer, RecognizerConfig } from './recognizerConfig';
+import { GestureResults } from './types';
+
+// --- Gesture Recognition Worker ---
+// Runs the GestureRecognizer off the main thread. Receives ImageBitmap frames grabbed from
+// the <video> element and posts back plain landmark/gesture results.
+
+export type WorkerRequest =
+  | { type: 'init'; config: RecognizerConfig }
+  | { type: 'frame'; bitmap: ImageBitmap; timestamp: number }
+  | { type: 'options'; numHands: number };
+
+export type WorkerResponse =
+  | { type: 'ready' }
+  | { type: 'error'; message: string }
+  | { type: 'result'; results: GestureResults; timestamp: number };
+
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (msg: WorkerResponse) => void;
+  importScripts?: (...urls: string[]) => void;
+};
+
+// tasks-vision loads its wasm glue with importScripts() when it detects a worker, which
+// throws inside module workers. Emulate it with a synchronous fetch + global eval.
+scope.importScripts = (...urls: string[]) => {
+  urls.forEach(url => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('GET', url, false);
+    xhr.send();
+    if (xhr.status !== 200) throw new Error(`importScripts failed for ${url}: ${xhr.status}`);
+    (0, eval)(xhr.responseText);
+  });
+};
+
+let recognizer: GestureRecognizer | null = null;
+
+const toPlainCategories = (lists: Category[][]) => lists.map(list => list.map(({ categoryName, score }) => ({ categoryName, score })));
+
+const toPlainResults = (raw: GestureRecognizerResult): GestureResults => ({
+  landmarks: (raw.landmarks ?? []).map(hand => hand.map(({ x, y, z }) => ({ x, y, z }))),
+  gestures: toPlainCategories(raw.gestures ?? []),
+  handedness: toPlainCategories(raw.handedness ?? raw.handednesses ?? [])
+});
+
+scope.onmessage = async (e) => {
+  const msg = e.data;
+  switch (msg.type) {
+    case 'init':
+      try {
+        recognizer = await createGestureRecognizer(msg.config);
+        scope.postMessage({ type: 'ready' });
+      } catch (err) {
+        scope.postMessage({ type: 'error', message: String(err) });
+      }
+      break;
+    case 'frame':
+      if (!recognizer) {
+        msg.bitmap.close();
+        break;
+      }
+      try {
+        const results = toPlainResults(recognizer.recognizeForVideo(msg.bitmap, msg.timestamp));
+        scope.postMessage({ type: 'result', results, timestamp: msg.timestamp });
+      } catch (err) {
+        scope.postMessage({ type: 'error', message: String(err) });
+      } finally {
+        msg.bitmap.close();
+      }
+      break;
+    case 'options':
+      recognizer?.setOptions({ numHands: msg.numHands });
+      break;
+  }
+};
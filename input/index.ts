@@ -0,0 +1,74 @@
+export * from './types';
+export { createInputManager } from './inputManager';
+export type { InputManager } from './inputManager';
+export { createMouseKeyboardSource } from './mouseKeyboardSource';
+export { createGestureSource, recognizeFromVideo, toRawAim } from './gestureSource';
+export type { RecognizeFn, VideoRecognizer } from './gestureSource';
+export {
+  GESTURE_CATEGORIES,
+  DEFAULT_GESTURE_BINDINGS,
+  GESTURE_BINDINGS_STORAGE_KEY,
+  BINDABLE_ACTIONS,
+  getActionInfo,
+  getGestureLabel,
+  getBoundGestures
+} from './gestureBindings';
+export type { GestureBinding, GestureBindings } from './gestureBindings';
+export {
+  DEFAULT_GESTURE_FILTER,
+  createGestureStateMachine,
+  createActionTrigger
+} from './gestureStateMachine';
+export type { TriggerMode, ActionTrigger, ActionTriggers, GestureFilterConfig, GestureState } from './gestureStateMachine';
+export {
+  CUSTOM_GESTURES,
+  HAND_CONNECTIONS,
+  INDEX_TIP,
+  classifyHand,
+  pinchScore,
+  fingerGunScore,
+  wristFlickScore,
+  palmLength,
+  createLandmarkClassifier
+} from './landmarkGestures';
+export {
+  DEFAULT_WASM_PATH,
+  DEFAULT_GESTURE_MODEL_PATH,
+  resolveRecognizerConfig,
+  createGestureRecognizer
+} from './recognizerConfig';
+export type { RecognizerConfig } from './recognizerConfig';
+export { createWorkerRecognizer, supportsWorkerRecognition } from './workerRecognizer';
+export type { WorkerRecognizer } from './workerRecognizer';
+export { createGamepadSource } from './gamepadSource';
+export { NO_STRAFE, combineStrafe, edgeStrafe } from './strafe';
+export { createLandmarkRecorder, createPlaybackRecognize, parseRecording, downloadRecording } from './landmarkRecording';
+export type { LandmarkRecorder, LandmarkRecording, RecordedFrame } from './landmarkRecording';
+export {
+  DEFAULT_CALIBRATION,
+  CALIBRATION_STORAGE_KEY,
+  CALIBRATION_TARGETS,
+  applyCalibration,
+  fitCalibration,
+  createCalibratedMapper
+} from './calibration';
+export type { CalibrationProfile, CornerSample } from './calibration';
+export {
+  DEFAULT_CAMERA_SETTINGS,
+  CAMERA_STORAGE_KEY,
+  CAMERA_RESOLUTIONS,
+  CAMERA_FRAME_RATES,
+  CAMERA_STATUS_INFO,
+  classifyCameraError,
+  openCamera,
+  listCameras,
+  describeStream
+} from './camera';
+export type { CameraSettings, CameraStatus } from './camera';
+export {
+  DEFAULT_CURSOR_FILTER,
+  CURSOR_FILTER_STORAGE_KEY,
+  CURSOR_FILTER_LIMITS,
+  createPointFilter
+} from './oneEuroFilter';
+export type { OneEuroConfig, CursorFilterSettings, PointFilter } from './oneEuroFilter';
@@ -0,0 +1,88 @@
+import { combineStrafe, NO_STRAFE } from './strafe';
+import { HeldAction, InputFrame, InputSource, InputSourceId } from './types';
+
+export interface InputManager {
+  sources: () => InputSource[];
+  isEnabled: (id: InputSourceId) => boolean;
+  setEnabled: (id: InputSourceId, enabled: boolean) => void;
+  poll: (now: number) => InputFrame;
+  dispose: () => void;
+}
+
+// Owns the registered InputSources and merges whatever the enabled ones report into a
+// single InputFrame. Sources earlier in the list win the aim when several move it at once.
+export const createInputManager = (
+  sources: InputSource[],
+  enabled: InputSourceId[] = sources.map(s => s.id)
+): InputManager => {
+  const active = new Set<InputSourceId>();
+  // Unlike actions, held state outlives the poll that reported it
+  const heldBySource = new Map<InputSourceId, HeldAction[]>();
+  const frame: InputFrame = { x: 0.5, y: 0.5, detected: false, gesture: 'None', actions: [], hands: [], handActions: [], aimSource: null, strafe: NO_STRAFE, held: [], changed: false };
+
+  const setEnabled = (id: InputSourceId, on: boolean) => {
+    const source = sources.find(s => s.id === id);
+    if (!source || active.has(id) === on) return;
+    if (on) {
+      active.add(id);
+      source.start();
+    } else {
+      active.delete(id);
+      heldBySource.delete(id);
+      source.stop();
+      if (id === 'gesture') {
+        frame.detected = false;
+        frame.gesture = 'None';
+        frame.hands = [];
+      }
+    }
+  };
+
+  enabled.forEach(id => setEnabled(id, true));
+
+  return {
+    sources: () => sources,
+    isEnabled: (id) => active.has(id),
+    setEnabled,
+    poll: (now: number) => {
+      const prevDetected = frame.detected;
+      const prevGesture = frame.gesture;
+      const prevHands = frame.hands;
+      frame.actions = [];
+      frame.handActions = [];
+      frame.aimSource = null;
+      frame.strafe = NO_STRAFE;
+
+      for (const source of sources) {
+        if (!active.has(source.id)) continue;
+        const sample = source.poll(now);
+        if (!sample) continue;
+
+        if (sample.aim && !frame.aimSource) {
+          frame.x = sample.aim.x;
+          frame.y = sample.aim.y;
+          frame.aimSource = source.id;
+        }
+        if (sample.detected !== undefined) frame.detected = sample.detected;
+        if (sample.gesture !== undefined) frame.gesture = sample.gesture;
+        if (sample.hands !== undefined) frame.hands = sample.hands;
+        if (sample.handActions) frame.handActions.push(...sample.handActions);
+        if (sample.strafe) frame.strafe = combineStrafe(frame.strafe, sample.strafe);
+        if (sample.held) heldBySource.set(source.id, sample.held);
+        sample.actions.forEach(a => {
+          if (!frame.actions.includes(a)) frame.actions.push(a);
+        });
+      }
+
+      frame.held = [...new Set([...heldBySource.values()].flat())];
+
+      frame.changed = frame.detected !== prevDetected || frame.gesture !== prevGesture ||
+        frame.hands.length !== prevHands.length ||
+        frame.hands.some((h, i) => h.side !== prevHands[i].side || h.gesture !== prevHands[i].gesture);
+      return frame;
+    },
+    dispose: () => {
+      sources.forEach(s => setEnabled(s.id, false));
+    }
+  };
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CUSTOM_GESTURES,
+  INDEX_MCP,
+  INDEX_PIP,
+  INDEX_TIP,
+  MIDDLE_MCP,
+  MIDDLE_PIP,
+  MIDDLE_TIP,
+  PINKY_PIP,
+  PINKY_TIP,
+  RING_PIP,
+  RING_TIP,
+  THUMB_IP,
+  THUMB_TIP,
+  WRIST,
+  classifyHand,
+  createLandmarkClassifier,
+  fingerGunScore,
+  pinchScore,
+  wristFlickScore
+} from './landmarkGestures';
+import { Landmark } from './types';
+
+// A 21-point hand with a palm length of 0.2, index pointing up, the other fingers curled
+// and the thumb cocked out to the side: a finger gun. Overrides reshape it into other poses.
+const hand = (overrides: Record<number, [number, number]> = {}): Landmark[] => {
+  const points: Record<number, [number, number]> = {
+    [WRIST]: [0.5, 0.8],
+    [THUMB_IP]: [0.36, 0.62],
+    [THUMB_TIP]: [0.3, 0.55],
+    [INDEX_MCP]: [0.45, 0.6],
+    [INDEX_PIP]: [0.46, 0.55],
+    [INDEX_TIP]: [0.45, 0.4],
+    [MIDDLE_MCP]: [0.5, 0.6],
+    [MIDDLE_PIP]: [0.5, 0.55],
+    [MIDDLE_TIP]: [0.5, 0.68],
+    [RING_PIP]: [0.54, 0.56],
+    [RING_TIP]: [0.54, 0.68],
+    [PINKY_PIP]: [0.58, 0.6],
+    [PINKY_TIP]: [0.57, 0.7],
+    ...overrides
+  };
+  return Array.from({ length: 21 }, (_, i) => {
+    const [x, y] = points[i] ?? points[WRIST];
+    return { x, y, z: 0 };
+  });
+};
+
+const pinching = () => hand({ [THUMB_TIP]: [0.45, 0.41] });
+
+describe('landmark gestures', () => {
+  it('scores a closed thumb–index gap as a full pinch', () => {
+    expect(pinchScore(pinching())).toBe(1);
+    expect(pinchScore(hand())).toBe(0);
+  });
+
+  it('recognizes a finger gun but not a pinch with the same fingers', () => {
+    expect(fingerGunScore(hand())).toBeCloseTo(1);
+    expect(fingerGunScore(pinching())).toBe(0);
+    // Middle finger extended too: a peace sign, not a gun
+    expect(fingerGunScore(hand({ [MIDDLE_TIP]: [0.52, 0.35] }))).toBe(0);
+  });
+
+  it('scores wrist speed in palm lengths per second', () => {
+    const moved = hand({ [WRIST]: [0.5, 0.6], [MIDDLE_MCP]: [0.5, 0.4] });
+    expect(wristFlickScore(hand(), moved, 50)).toBeCloseTo(1);
+    expect(wristFlickScore(hand(), moved, 500)).toBeCloseTo(0.1);
+    expect(wristFlickScore(hand(), moved, 0)).toBe(0);
+  });
+
+  it('ranks the poses of a hand best first', () => {
+    expect(classifyHand(pinching())[0].categoryName).toBe(CUSTOM_GESTURES.PINCH);
+    expect(classifyHand(hand())[0].categoryName).toBe(CUSTOM_GESTURES.FINGER_GUN);
+  });
+
+  it('puts a confident custom pose ahead of the model answering "None"', () => {
+    const classify = createLandmarkClassifier();
+    const results = classify({ landmarks: [pinching()], gestures: [[{ categoryName: 'None', score: 0.9 }]] }, 0);
+    expect(results.gestures[0][0].categoryName).toBe(CUSTOM_GESTURES.PINCH);
+  });
+
+  it('keeps a confident built-in gesture ahead of a weaker custom one', () => {
+    const classify = createLandmarkClassifier();
+    // Thumb only half cocked, so the finger gun scores about 0.83
+    const results = classify({ landmarks: [hand({ [THUMB_TIP]: [0.35, 0.6] })], gestures: [[{ categoryName: 'Open_Palm', score: 0.95 }]] }, 0);
+    expect(results.gestures[0][0].categoryName).toBe('Open_Palm');
+  });
+});
@@ -0,0 +1,118 @@
+import { GestureCategory, GestureResults, Landmark } from './types';
+
+// --- Geometric Gestures From Hand Landmarks ---
+// Poses the canned MediaPipe model does not know, classified straight from the 21
+// landmarks. classifyHand is pure so it can be exercised on recorded landmark arrays.
+
+// MediaPipe hand landmark indices
+export const WRIST = 0;
+export const THUMB_IP = 3;
+export const THUMB_TIP = 4;
+export const INDEX_MCP = 5;
+export const INDEX_PIP = 6;
+export const INDEX_TIP = 8;
+export const MIDDLE_MCP = 9;
+export const MIDDLE_PIP = 10;
+export const MIDDLE_TIP = 12;
+export const RING_PIP = 14;
+export const RING_TIP = 16;
+export const PINKY_PIP = 18;
+export const PINKY_TIP = 20;
+
+// Bone pairs of the 21-point hand model, for drawing the tracked skeleton
+export const HAND_CONNECTIONS: [number, number][] = [
+  [0, 1], [1, 2], [2, 3], [3, 4], // Thumb
+  [0, 5], [5, 6], [6, 7], [7, 8], // Index
+  [5, 9], [9, 10], [10, 11], [11, 12], // Middle
+  [9, 13], [13, 14], [14, 15], [15, 16], // Ring
+  [13, 17], [0, 17], [17, 18], [18, 19], [19, 20] // Pinky and palm base
+];
+
+export const CUSTOM_GESTURES = {
+  PINCH: 'Pinch',
+  FINGER_GUN: 'Finger_Gun',
+  WRIST_FLICK: 'Wrist_Flick'
+};
+
+const PINCH_RATIO = 0.25; // Thumb–index gap, in palm lengths, that counts as a full pinch
+const PINCH_RELEASE_RATIO = 0.55; // Gap at which the pinch score reaches zero
+const FLICK_SPEED = 20; // Wrist speed, in palm lengths per second, that scores a full flick
+const CUSTOM_OVERRIDE_SCORE = 0.7; // A custom pose must beat this to replace the model's answer
+
+const dist = (a: Landmark, b: Landmark) => Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// Wrist to middle-finger knuckle; normalizes distances for hand size and camera distance
+export const palmLength = (hand: Landmark[]) => Math.max(dist(hand[WRIST], hand[MIDDLE_MCP]), 1e-6);
+
+const isExtended = (hand: Landmark[], tip: number, pip: number) =>
+  dist(hand[WRIST], hand[tip]) > dist(hand[WRIST], hand[pip]) * 1.15;
+
+const isCurled = (hand: Landmark[], tip: number, pip: number) =>
+  dist(hand[WRIST], hand[tip]) < dist(hand[WRIST], hand[pip]);
+
+export const pinchScore = (hand: Landmark[]) => {
+  const ratio = dist(hand[THUMB_TIP], hand[INDEX_TIP]) / palmLength(hand);
+  return clamp01((PINCH_RELEASE_RATIO - ratio) / (PINCH_RELEASE_RATIO - PINCH_RATIO));
+};
+
+// Index pointing, thumb cocked away from the index knuckle, the other three fingers curled
+export const fingerGunScore = (hand: Landmark[]) => {
+  if (!isExtended(hand, INDEX_TIP, INDEX_PIP)) return 0;
+  const curled = [
+    isCurled(hand, MIDDLE_TIP, MIDDLE_PIP),
+    isCurled(hand, RING_TIP, RING_PIP),
+    isCurled(hand, PINKY_TIP, PINKY_PIP)
+  ].filter(Boolean).length;
+  if (curled < 3) return 0;
+  const thumbOut = dist(hand[THUMB_TIP], hand[INDEX_MCP]) / palmLength(hand);
+  const thumbOpen = dist(hand[THUMB_TIP], hand[INDEX_MCP]) > dist(hand[THUMB_IP], hand[INDEX_MCP]);
+  // A thumb touching the index tip is a pinch, not a cocked hammer
+  return thumbOpen ? clamp01(thumbOut / 0.6) * (1 - pinchScore(hand)) : 0;
+};
+
+export const wristFlickScore = (prev: Landmark[], hand: Landmark[], dtMs: number) => {
+  if (dtMs <= 0) return 0;
+  const speed = dist(prev[WRIST], hand[WRIST]) / palmLength(hand) / (dtMs / 1000);
+  return clamp01(speed / FLICK_SPEED);
+};
+
+// Scores every static custom pose for one hand, best first
+export const classifyHand = (hand: Landmark[]): GestureCategory[] =>
+  [
+    { categoryName: CUSTOM_GESTURES.PINCH, score: pinchScore(hand) },
+    { categoryName: CUSTOM_GESTURES.FINGER_GUN, score: fingerGunScore(hand) }
+  ]
+    .filter(c => c.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+// Adds custom gestures to recognizer results. Keeps the previous poll's landmarks per hand
+// slot for motion gestures. A confident custom pose is placed first in that hand's
+// category list, so downstream code sees it exactly like a built-in gesture.
+export const createLandmarkClassifier = () => {
+  let previous: { time: number; hands: Landmark[][] } | null = null;
+
+  return (results: GestureResults, now: number): GestureResults => {
+    const hands = results.landmarks ?? [];
+    const gestures = hands.map((hand, i) => {
+      const custom = classifyHand(hand);
+      const prevHand = previous?.hands[i];
+      if (prevHand && previous) {
+        const flick = wristFlickScore(prevHand, hand, now - previous.time);
+        if (flick > 0) custom.push({ categoryName: CUSTOM_GESTURES.WRIST_FLICK, score: flick });
+        custom.sort((a, b) => b.score - a.score);
+      }
+
+      const canned = results.gestures?.[i] ?? [];
+      const best = custom[0];
+      const cannedTop = canned[0]?.categoryName ?? 'None';
+      // A pinch or finger gun usually reads as "None" to the model; only override a real gesture if clearly better
+      const overrides = best && best.score >= CUSTOM_OVERRIDE_SCORE &&
+        (cannedTop === 'None' || best.score > (canned[0]?.score ?? 0));
+      return overrides ? [...custom, ...canned] : [...canned, ...custom];
+    });
+
+    previous = { time: now, hands };
+    return { ...results, gestures };
+  };
+};
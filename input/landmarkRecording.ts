@@ -0,0 +1,111 @@
+import { GestureCategory, GestureResults, Landmark } from './types';
+import { RecognizeFn } from './gestureSource';
+
+// --- Landmark Session Recording & Playback ---
+// A recording is the recognizer output captured at each gesture poll, so playing it back
+// drives the exact same path as the webcam (aim, gesture label, fire actions).
+
+const RECORDING_VERSION = 1;
+
+export interface RecordedFrame {
+  t: number; // ms since recording start
+  landmarks: Landmark[][];
+  gestures: GestureCategory[][];
+  handedness?: GestureCategory[][];
+}
+
+export interface LandmarkRecording {
+  version: number;
+  createdAt: string;
+  frames: RecordedFrame[];
+}
+
+export interface LandmarkRecorder {
+  isRecording: () => boolean;
+  start: () => void;
+  capture: (now: number, results: GestureResults) => void;
+  stop: () => LandmarkRecording;
+}
+
+const copyLandmarks = (hands: Landmark[][]) => hands.map(hand => hand.map(({ x, y, z }) => ({ x, y, z })));
+const copyCategories = (lists: GestureCategory[][]) =>
+  lists.map(list => list.map(({ categoryName, score }) => ({ categoryName, score })));
+
+export const createLandmarkRecorder = (): LandmarkRecorder => {
+  let frames: RecordedFrame[] = [];
+  let startTime: number | null = null;
+  let recording = false;
+
+  return {
+    isRecording: () => recording,
+    start: () => {
+      frames = [];
+      startTime = null;
+      recording = true;
+    },
+    capture: (now, results) => {
+      if (!recording) return;
+      if (startTime === null) startTime = now;
+      const frame: RecordedFrame = {
+        t: now - startTime,
+        landmarks: copyLandmarks(results.landmarks ?? []),
+        gestures: copyCategories(results.gestures ?? [])
+      };
+      if (results.handedness) frame.handedness = copyCategories(results.handedness);
+      frames.push(frame);
+    },
+    stop: () => {
+      recording = false;
+      return { version: RECORDING_VERSION, createdAt: new Date().toISOString(), frames };
+    }
+  };
+};
+
+// Validates parsed JSON and returns it as a recording, throwing on anything malformed
+export const parseRecording = (data: unknown): LandmarkRecording => {
+  const rec = data as LandmarkRecording;
+  if (!rec || typeof rec !== 'object') throw new Error('Recording is not an object');
+  if (rec.version !== RECORDING_VERSION) throw new Error(`Unsupported recording version: ${rec.version}`);
+  if (!Array.isArray(rec.frames)) throw new Error('Recording has no frames array');
+  rec.frames.forEach((frame, i) => {
+    if (typeof frame.t !== 'number' || !Array.isArray(frame.landmarks) || !Array.isArray(frame.gestures)) {
+      throw new Error(`Malformed frame at index ${i}`);
+    }
+  });
+  return rec;
+};
+
+export const downloadRecording = (recording: LandmarkRecording, filename = `stark-session-${Date.now()}.json`) => {
+  const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Replays a recording in real time as a RecognizeFn. The clock starts on the first poll.
+export const createPlaybackRecognize = (recording: LandmarkRecording, loop = true): RecognizeFn => {
+  const frames = recording.frames;
+  const duration = frames.length > 0 ? frames[frames.length - 1].t : 0;
+  let startTime: number | null = null;
+  let cursor = 0;
+
+  return (now: number) => {
+    if (frames.length === 0) return null;
+    if (startTime === null) startTime = now;
+
+    let elapsed = now - startTime;
+    if (elapsed > duration) {
+      if (!loop) return { landmarks: [], gestures: [] };
+      startTime = now;
+      elapsed = 0;
+      cursor = 0;
+    }
+
+    while (cursor < frames.length - 1 && frames[cursor + 1].t <= elapsed) cursor++;
+    const { landmarks, gestures, handedness } = frames[cursor];
+    return { landmarks, gestures, handedness };
+  };
+};
@@ -0,0 +1,92 @@
+import { combineStrafe, NO_STRAFE } from './strafe';
+import { HeldAction, InputAction, InputSample, InputSource, Strafe } from './types';
+
+const KEY_ACTIONS: Record<string, InputAction> = {
+  KeyE: 'shield',
+  KeyQ: 'overload',
+  KeyP: 'pause',
+  Escape: 'pause'
+};
+
+// Held, unlike KEY_ACTIONS which fire once per press
+const HOLD_KEYS: Record<string, HeldAction> = {
+  Space: 'unibeam'
+};
+
+const STRAFE_KEYS: Record<string, Strafe> = {
+  KeyA: { x: -1, y: 0 },
+  ArrowLeft: { x: -1, y: 0 },
+  KeyD: { x: 1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  KeyW: { x: 0, y: 1 },
+  ArrowUp: { x: 0, y: 1 },
+  KeyS: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: -1 }
+};
+
+export const createMouseKeyboardSource = (): InputSource => {
+  let aim: { x: number; y: number } | null = null;
+  let queued: InputAction[] = [];
+  const held = new Set<string>();
+  let wasHolding = false; // So the poll after a hold key comes up reports the release
+
+  const handleMouseMove = (e: MouseEvent) => {
+    aim = { x: e.clientX / window.innerWidth, y: e.clientY / window.innerHeight };
+  };
+
+  const handleMouseDown = () => {
+    queued.push('repulsor');
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (STRAFE_KEYS[e.code] || HOLD_KEYS[e.code]) held.add(e.code);
+    if (e.repeat) return;
+    const action = KEY_ACTIONS[e.code];
+    if (action) queued.push(action);
+  };
+
+  const handleKeyUp = (e: KeyboardEvent) => {
+    held.delete(e.code);
+  };
+
+  // Key-ups that happen in another window never arrive
+  const handleBlur = () => {
+    held.clear();
+  };
+
+  return {
+    id: 'mouse',
+    label: 'MOUSE / KEYS',
+    start: () => {
+      document.addEventListener('keydown', handleKeyDown);
+      document.addEventListener('keyup', handleKeyUp);
+      window.addEventListener('blur', handleBlur);
+      document.addEventListener('mousemove', handleMouseMove);
+      document.addEventListener('mousedown', handleMouseDown);
+    },
+    stop: () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      document.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mousedown', handleMouseDown);
+      aim = null;
+      queued = [];
+      held.clear();
+      wasHolding = false;
+    },
+    poll: () => {
+      if (!aim && queued.length === 0 && held.size === 0 && !wasHolding) return null;
+      const keys = [...held];
+      const holding = keys.filter(code => HOLD_KEYS[code]).map(code => HOLD_KEYS[code]);
+      const strafing = keys.filter(code => STRAFE_KEYS[code]);
+      const sample: InputSample = { actions: queued, held: holding };
+      if (aim) sample.aim = aim;
+      if (strafing.length > 0) sample.strafe = strafing.reduce((sum, code) => combineStrafe(sum, STRAFE_KEYS[code]), NO_STRAFE);
+      aim = null;
+      queued = [];
+      wasHolding = holding.length > 0;
+      return sample;
+    }
+  };
+};
@@ -0,0 +1,75 @@
+// --- Adaptive Cursor Smoothing ---
+// One Euro filter (Casiez et al. 2012): a low-pass filter whose cutoff rises with speed,
+// so a resting hand is steady while fast flicks keep up. Time-based, so it behaves the
+// same at any frame rate.
+
+export interface OneEuroConfig {
+  minCutoff: number; // Hz at rest; lower is steadier but laggier
+  beta: number; // How fast the cutoff rises with cursor speed (screens/second)
+  dCutoff: number; // Hz used to smooth the speed estimate itself
+}
+
+export interface CursorFilterSettings extends OneEuroConfig {
+  filterMouse: boolean; // Mouse aim is already precise, so players may skip smoothing it
+}
+
+export const DEFAULT_CURSOR_FILTER: CursorFilterSettings = {
+  minCutoff: 1.5,
+  beta: 4,
+  dCutoff: 1,
+  filterMouse: true
+};
+
+export const CURSOR_FILTER_STORAGE_KEY = 'cursor_filter';
+
+// Slider ranges for the settings panel
+export const CURSOR_FILTER_LIMITS: Record<keyof OneEuroConfig, { min: number; max: number; step: number }> = {
+  minCutoff: { min: 0.1, max: 10, step: 0.1 },
+  beta: { min: 0, max: 20, step: 0.5 },
+  dCutoff: { min: 0.1, max: 5, step: 0.1 }
+};
+
+const smoothingFactor = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+export interface PointFilter {
+  filter: (point: { x: number; y: number }, time: number) => { x: number; y: number };
+  reset: () => void;
+}
+
+// Filters a 0-1 screen point; `time` is in seconds. The config is read on every call so
+// panel edits apply live.
+export const createPointFilter = (getConfig: () => OneEuroConfig): PointFilter => {
+  let last: { x: number; y: number; time: number } | null = null;
+  let speed = 0;
+
+  return {
+    filter: (point, time) => {
+      const dt = last ? time - last.time : 0;
+      if (!last || dt <= 0) {
+        // First sample (or a duplicate timestamp) passes through unchanged
+        if (!last) last = { x: point.x, y: point.y, time };
+        return { x: last.x, y: last.y };
+      }
+
+      const { minCutoff, beta, dCutoff } = getConfig();
+      // One cutoff for both axes, driven by overall speed, so diagonal moves are not skewed
+      const rawSpeed = Math.hypot(point.x - last.x, point.y - last.y) / dt;
+      speed += smoothingFactor(dCutoff, dt) * (rawSpeed - speed);
+      const a = smoothingFactor(minCutoff + beta * speed, dt);
+
+      last = {
+        x: last.x + a * (point.x - last.x),
+        y: last.y + a * (point.y - last.y),
+        time
+      };
+      return { x: last.x, y: last.y };
+    },
+    reset: () => {
+      last = null;
+      speed = 0;
+    }
+  };
+};
@@ -0,0 +1,44 @@
+// --- MediaPipe Asset Locations ---
+// The tasks-vision JS is bundled by Vite; the wasm runtime and the .task model are served
+// from public/mediapipe (see scripts/fetch-mediapipe-assets.js). Deployments can point
+// elsewhere through window.__mediapipe_assets in index.html.
+
+declare global {
+  var __mediapipe_assets: { wasmPath?: string; modelPath?: string } | undefined;
+}
+
+export const DEFAULT_WASM_PATH = "/mediapipe/wasm";
+export const DEFAULT_GESTURE_MODEL_PATH = "/mediapipe/gesture_recognizer.task";
+
+export interface RecognizerConfig {
+  wasmPath: string;
+  modelPath: string;
+  numHands: number;
+}
+
+// Resolves configured asset paths to absolute URLs, since the worker resolves relative
+// URLs against its own script location rather than the page
+export const resolveRecognizerConfig = (numHands: number): RecognizerConfig => {
+  const assets = typeof __mediapipe_assets !== 'undefined' ? __mediapipe_assets : undefined;
+  const absolute = (path: string) => new URL(path, document.baseURI).href;
+  return {
+    wasmPath: absolute(assets?.wasmPath ?? DEFAULT_WASM_PATH),
+    modelPath: absolute(assets?.modelPath ?? DEFAULT_GESTURE_MODEL_PATH),
+    numHands
+  };
+};
+
+// Loads tasks-vision and builds a VIDEO-mode GestureRecognizer. Shared by the main thread
+// and the recognition worker so both paths configure the model identically.
+export const createGestureRecognizer = async (config: RecognizerConfig) => {
+  const { FilesetResolver, GestureRecognizer } = await import('@mediapipe/tasks-vision');
+  const vision = await FilesetResolver.forVisionTasks(config.wasmPath);
+  return GestureRecognizer.createFromOptions(vision, {
+    baseOptions: {
+      modelAssetPath: config.modelPath,
+      delegate: "GPU"
+    },
+    runningMode: "VIDEO",
+    numHands: config.numHands
+  });
+};
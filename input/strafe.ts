@@ -0,0 +1,25 @@
+import { Strafe } from './types';
+
+// --- Strafing ---
+
+// Aim beyond this distance from the screen center strafes toward that edge; full speed at the edge
+const EDGE_STRAFE_START = 0.3;
+
+export const NO_STRAFE: Strafe = { x: 0, y: 0 };
+
+const clampUnit = (v: number) => Math.min(1, Math.max(-1, v));
+
+export const combineStrafe = (a: Strafe, b: Strafe): Strafe => ({
+  x: clampUnit(a.x + b.x),
+  y: clampUnit(a.y + b.y)
+});
+
+// Hand aiming has no spare buttons, so pushing the hand toward a screen edge moves the player that
+// way: aim at a drone near the border and you drift toward it, out of the line of fire
+export const edgeStrafe = (aim: { x: number; y: number }): Strafe => {
+  const axis = (offset: number) => {
+    const beyond = Math.abs(offset) - EDGE_STRAFE_START;
+    return beyond > 0 ? Math.sign(offset) * Math.min(1, beyond / (0.5 - EDGE_STRAFE_START)) : 0;
+  };
+  return { x: axis(aim.x - 0.5), y: axis(0.5 - aim.y) };
+};
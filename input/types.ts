@@ -0,0 +1,89 @@
+// --- Input Layer Types ---
+
+export type InputAction = 'repulsor' | 'charged_repulsor' | 'unibeam' | 'shield' | 'overload' | 'pause';
+
+// Actions that last for as long as their key, button or gesture is down, rather than firing
+// once; sources report them in `held` instead of `actions`
+export type HeldAction = Extract<InputAction, 'unibeam'>;
+export type TriggeredAction = Exclude<InputAction, HeldAction>;
+
+export type InputSourceId = 'mouse' | 'gesture' | 'gamepad';
+
+export type HandSide = 'left' | 'right';
+
+// One tracked hand in two-handed mode, aim already mapped to screen space
+export interface TrackedHand {
+  side: HandSide;
+  x: number;
+  y: number;
+  gesture: string;
+}
+
+// Held movement, -1..1 per axis (x: right, y: up)
+export interface Strafe {
+  x: number;
+  y: number;
+}
+
+export interface HandAction {
+  side: HandSide;
+  action: InputAction;
+}
+
+export interface HandInput {
+  x: number; // 0-1 relative to screen
+  y: number; // 0-1 relative to screen
+  detected: boolean;
+  gesture: string;
+  hands?: TrackedHand[]; // Present in two-handed mode only
+}
+
+// Subset of the MediaPipe GestureRecognizerResult shape the game reads
+export interface Landmark {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface GestureCategory {
+  categoryName: string;
+  score: number;
+}
+
+export interface GestureResults {
+  landmarks: Landmark[][];
+  gestures: GestureCategory[][];
+  handedness?: GestureCategory[][];
+}
+
+// What a single source reports for one poll. Fields left undefined mean "no change".
+export interface InputSample {
+  aim?: { x: number; y: number };
+  detected?: boolean;
+  gesture?: string;
+  actions: InputAction[];
+  hands?: TrackedHand[];
+  handActions?: HandAction[]; // Actions that belong to one specific hand
+  strafe?: Strafe; // Movement held this poll
+  held?: HeldAction[]; // Down as of this poll; left undefined, the source's last report stands
+}
+
+// The merged, normalized stream the game loop consumes once per frame
+export interface InputFrame extends HandInput {
+  actions: InputAction[];
+  hands: TrackedHand[];
+  handActions: HandAction[];
+  aimSource: InputSourceId | null; // Source that moved the aim this frame
+  strafe: Strafe; // What every source holds this frame, summed and clamped
+  held: HeldAction[]; // Down on any enabled source
+  changed: boolean; // True when detected/gesture differ from the previous frame
+}
+
+export interface InputSource {
+  readonly id: InputSourceId;
+  readonly label: string;
+  start: () => void;
+  stop: () => void;
+  // Returns null when the source has nothing new since the last poll
+  poll: (now: number) => InputSample | null;
+}
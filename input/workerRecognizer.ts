@@ -0,0 +1,81 @@
+import { RecognizerConfig } from './recognizerConfig';
+import { RecognizeFn } from './gestureSource';
+import { GestureResults } from './types';
+import type { WorkerRequest, WorkerResponse } from './gestureWorker';
+
+export interface WorkerRecognizer {
+  recognize: RecognizeFn;
+  setNumHands: (numHands: number) => void;
+  dispose: () => void;
+}
+
+// A worker whose model load stalls would otherwise never settle and never fall back
+const INIT_TIMEOUT_MS = 20000;
+
+export const supportsWorkerRecognition = () =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof createImageBitmap === 'function';
+
+// Starts the recognition worker and resolves once its model is loaded. Rejects if the
+// worker cannot start, fails to initialize or is not ready within INIT_TIMEOUT_MS, so
+// callers can fall back to the in-thread path.
+export const createWorkerRecognizer = (
+  getVideo: () => HTMLVideoElement | null,
+  config: RecognizerConfig
+): Promise<WorkerRecognizer> => new Promise((resolve, reject) => {
+  const worker = new Worker(new URL('./gestureWorker.ts', import.meta.url), { type: 'module' });
+  const send = (msg: WorkerRequest, transfer: Transferable[] = []) => worker.postMessage(msg, transfer);
+
+  let ready = false;
+  let inFlight = false; // One frame at a time; the main loop never waits on the worker
+  let latest: GestureResults | null = null;
+
+  const dispose = () => worker.terminate();
+  const fail = (error: Error) => {
+    clearTimeout(initTimer);
+    dispose();
+    reject(error);
+  };
+  const initTimer = setTimeout(() => fail(new Error(`Gesture worker not ready after ${INIT_TIMEOUT_MS} ms`)), INIT_TIMEOUT_MS);
+
+  worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+    const msg = e.data;
+    if (msg.type === 'ready') {
+      ready = true;
+      clearTimeout(initTimer);
+      resolve({ recognize, setNumHands: (numHands) => send({ type: 'options', numHands }), dispose });
+    } else if (msg.type === 'result') {
+      inFlight = false;
+      latest = msg.results;
+    } else if (msg.type === 'error') {
+      inFlight = false;
+      if (!ready) {
+        fail(new Error(msg.message));
+      } else {
+        console.error("Gesture Worker Error:", msg.message);
+      }
+    }
+  };
+  worker.onerror = (e) => {
+    if (ready) return;
+    fail(new Error(e.message));
+  };
+
+  // Hands the current video frame to the worker and returns the newest finished result,
+  // or null when nothing new has arrived since the last call
+  const recognize: RecognizeFn = (now) => {
+    const video = getVideo();
+    if (!inFlight && video && video.readyState === 4) {
+      inFlight = true;
+      createImageBitmap(video)
+        .then(bitmap => send({ type: 'frame', bitmap, timestamp: now }, [bitmap]))
+        .catch(() => { inFlight = false; });
+    }
+    const result = latest;
+    latest = null;
+    return result;
+  };
+
+  send({ type: 'init', config });
+});
@@ -0,0 +1,34 @@
+// Copies the tasks-vision wasm runtime out of node_modules and downloads the gesture model
+// into public/mediapipe/, so Vite serves and bundles them with the app. Run automatically
+// before `dev` and `build`; once the model has been fetched the app needs no network.
+import { copyFileSync, existsSync, mkdirSync, readdirSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const outDir = join(root, 'public', 'mediapipe');
+const wasmSrc = join(root, 'node_modules', '@mediapipe', 'tasks-vision', 'wasm');
+const wasmOut = join(outDir, 'wasm');
+const modelOut = join(outDir, 'gesture_recognizer.task');
+const modelUrl = process.env.MEDIAPIPE_MODEL_URL ??
+  'https://storage.googleapis.com/mediapipe-models/gesture_recognizer/gesture_recognizer/float16/1/gesture_recognizer.task';
+
+mkdirSync(wasmOut, { recursive: true });
+for (const file of readdirSync(wasmSrc)) {
+  copyFileSync(join(wasmSrc, file), join(wasmOut, file));
+}
+console.log(`[mediapipe] wasm runtime copied to ${wasmOut}`);
+
+if (existsSync(modelOut)) {
+  console.log(`[mediapipe] model present at ${modelOut}`);
+} else {
+  try {
+    const res = await fetch(modelUrl);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    writeFileSync(modelOut, Buffer.from(await res.arrayBuffer()));
+    console.log(`[mediapipe] model downloaded to ${modelOut}`);
+  } catch (err) {
+    // Not fatal: the game still runs on mouse/keys/gamepad and shows gesture control as unavailable
+    console.warn(`[mediapipe] could not download model (${err.message}). Place it at ${modelOut} for gesture control.`);
+  }
+}
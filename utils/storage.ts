@@ -0,0 +1,34 @@
+// --- localStorage Helpers ---
+// Settings are best-effort: private mode or a full quota must never break the game.
+
+const STORAGE_PREFIX = 'stark_protocol.';
+
+export const loadSetting = <T,>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + key);
+    if (!raw) return fallback;
+    const parsed = JSON.parse(raw);
+    // Merge over the defaults so settings saved by older builds pick up new fields
+    const isObject = (v: unknown) => !!v && typeof v === 'object' && !Array.isArray(v);
+    return isObject(fallback) && isObject(parsed) ? { ...fallback, ...parsed } : parsed;
+  } catch (e) {
+    console.error("Settings Load Error:", e);
+    return fallback;
+  }
+};
+
+export const saveSetting = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch (e) {
+    console.error("Settings Save Error:", e);
+  }
+};
+
+export const hasSetting = (key: string) => {
+  try {
+    return localStorage.getItem(STORAGE_PREFIX + key) !== null;
+  } catch {
+    return false;
+  }
+};
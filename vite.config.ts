@@ -3,6 +3,10 @@ import react from '@vitejs/plugin-react'
 
 export default defineConfig({
   plugins: [react()],
+  worker: {
+    // The gesture worker is started with { type: 'module' }
+    format: 'es'
+  },
   build: {
     outDir: 'dist',
     sourcemap: false